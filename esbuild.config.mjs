@@ -6,7 +6,7 @@ const isProduction = process.argv.includes("production");
 const context = await esbuild.context({
   entryPoints: ["src/main.ts"],
   bundle: true,
-  external: ["obsidian", "electron", "@codemirror/state", "@codemirror/view"],
+  external: ["obsidian", "electron", "@codemirror/language", "@codemirror/state", "@codemirror/view"],
   format: "cjs",
   target: "es2018",
   logLevel: "info",
@@ -0,0 +1,115 @@
+// A tiny completion server for trying the plugin and the evaluation command without a model.
+// It speaks the Ollama, llama.cpp and OpenAI-compatible streaming protocols, completion and chat,
+// and always answers with MOCK_TEXT, one word at a time.
+//
+//   MOCK_TEXT=" and then" MOCK_LATENCY_MS=50 PORT=11500 npm run mock-server
+import http from "http";
+import process from "process";
+
+const port = Number(process.env.PORT ?? 11500);
+const text = process.env.MOCK_TEXT ?? " the";
+const latencyMs = Number(process.env.MOCK_LATENCY_MS ?? 30);
+const model = "mock";
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+const words = () => text.match(/\s*\S+/g) ?? [];
+
+function readBody(request) {
+  return new Promise(resolve => {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body || "{}"));
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
+
+function sendJson(response, data) {
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(data));
+}
+
+async function stream(response, contentType, chunks) {
+  response.writeHead(200, { "Content-Type": contentType });
+  const started = Date.now();
+  for (const chunk of chunks(started)) {
+    await sleep(latencyMs);
+    response.write(chunk);
+  }
+  response.end();
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url ?? "/", `http://localhost:${port}`);
+  const path = url.pathname.replace(/\/+$/, "");
+  if (request.method === "GET" && path === "/api/tags") {
+    return sendJson(response, { models: [{ name: model }] });
+  }
+  if (request.method === "GET" && path === "/v1/models") {
+    return sendJson(response, { data: [{ id: model }] });
+  }
+  if (request.method !== "POST") {
+    response.writeHead(404).end();
+    return;
+  }
+  const body = await readBody(request);
+  if (path === "/api/generate") {
+    if (!body.prompt || body.stream === false) {
+      return sendJson(response, { model, response: "", done: true });
+    }
+    return stream(response, "application/x-ndjson", function* (started) {
+      for (const word of words()) {
+        yield `${JSON.stringify({ model, response: word, done: false })}\n`;
+      }
+      const duration = (Date.now() - started) * 1_000_000;
+      yield `${JSON.stringify({ model, response: "", done: true, done_reason: "stop", total_duration: duration })}\n`;
+    });
+  }
+  if (path === "/api/chat") {
+    return stream(response, "application/x-ndjson", function* (started) {
+      for (const word of words()) {
+        yield `${JSON.stringify({ model, message: { role: "assistant", content: word }, done: false })}\n`;
+      }
+      const duration = (Date.now() - started) * 1_000_000;
+      yield `${JSON.stringify({ model, message: { role: "assistant", content: "" }, done: true, done_reason: "stop", total_duration: duration })}\n`;
+    });
+  }
+  if (path === "/completion" || path === "/infill") {
+    return stream(response, "text/event-stream", function* () {
+      for (const word of words()) {
+        yield `data: ${JSON.stringify({ content: word, stop: false })}\n\n`;
+      }
+      yield `data: ${JSON.stringify({ content: "", stop: true })}\n\n`;
+    });
+  }
+  if (path === "/v1/completions") {
+    if (body.stream === false) {
+      return sendJson(response, { choices: [{ text: "", finish_reason: "stop" }] });
+    }
+    return stream(response, "text/event-stream", function* () {
+      for (const word of words()) {
+        yield `data: ${JSON.stringify({ choices: [{ text: word, finish_reason: null }] })}\n\n`;
+      }
+      yield `data: ${JSON.stringify({ choices: [{ text: "", finish_reason: "stop" }] })}\n\n`;
+      yield "data: [DONE]\n\n";
+    });
+  }
+  if (path === "/v1/chat/completions") {
+    return stream(response, "text/event-stream", function* () {
+      for (const word of words()) {
+        yield `data: ${JSON.stringify({ choices: [{ delta: { content: word }, finish_reason: null }] })}\n\n`;
+      }
+      yield `data: ${JSON.stringify({ choices: [{ delta: {}, finish_reason: "stop" }] })}\n\n`;
+      yield "data: [DONE]\n\n";
+    });
+  }
+  response.writeHead(404).end();
+});
+
+server.listen(port, () => {
+  console.log(`Mock completion server on http://localhost:${port}`);
+});
@@ -0,0 +1,494 @@
+export type BackendKind = "ollama" | "llamacpp" | "openai";
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  suffix?: string;
+  maxTokens: number;
+  stop: string[];
+  temperature: number;
+  topP: number;
+  topK: number;
+  repeatPenalty: number;
+  keepAlive?: string;
+  // Set for instruction-tuned models: the prompt goes to the chat endpoint as the user message.
+  system?: string;
+}
+
+export interface StreamChunk {
+  text?: string;
+  done?: boolean;
+  truncated?: boolean;
+  durationMs?: number;
+}
+
+export interface CompletionBackend {
+  readonly kind: BackendKind;
+  readonly label: string;
+  readonly defaultUrl: string;
+  readonly framing: "ndjson" | "sse";
+  endpoint(baseUrl: string, request: CompletionRequest): string;
+  buildBody(request: CompletionRequest): Record<string, unknown>;
+  parseChunk(data: unknown): StreamChunk | null;
+  modelsEndpoint(baseUrl: string): string;
+  parseModels(data: unknown): string[];
+  // Loads the model without generating; null when the server keeps its model loaded anyway.
+  warmUp(baseUrl: string, model: string, keepAlive: string): WarmUpRequest | null;
+}
+
+export interface WarmUpRequest {
+  url: string;
+  body: Record<string, unknown>;
+}
+
+export interface CompletionResult {
+  text: string;
+  truncated: boolean;
+  durationMs: number | null;
+}
+
+export type CompletionErrorKind = "http" | "empty-body" | "network" | "timeout" | "aborted";
+
+export class CompletionError extends Error {
+  readonly kind: CompletionErrorKind;
+  readonly status: number | null;
+
+  constructor(kind: CompletionErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = "CompletionError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  return value as Record<string, unknown>;
+}
+
+function openAiPath(baseUrl: string, path: string): string {
+  const trimmed = baseUrl.replace(/\/+$/, "");
+  return /\/v1$/.test(trimmed) ? `${trimmed}${path}` : `${trimmed}/v1${path}`;
+}
+
+function chatMessages(request: CompletionRequest): Record<string, string>[] {
+  return [
+    { role: "system", content: request.system ?? "" },
+    { role: "user", content: request.prompt }
+  ];
+}
+
+// Completion chunks carry `text`, chat chunks a `delta` with the new content.
+function parseOpenAiChoice(record: Record<string, unknown>): StreamChunk | null {
+  if (!Array.isArray(record.choices) || record.choices.length === 0) {
+    return null;
+  }
+  const choice = asRecord(record.choices[0]);
+  if (!choice) {
+    return null;
+  }
+  const content = asRecord(choice.delta)?.content;
+  const text = typeof choice.text === "string" ? choice.text : content;
+  return {
+    text: typeof text === "string" ? text : undefined,
+    done: typeof choice.finish_reason === "string",
+    truncated: choice.finish_reason === "length"
+  };
+}
+
+function parseModelIds(data: unknown): string[] {
+  const list = asRecord(data)?.data;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+  return list
+    .map(entry => asRecord(entry)?.id)
+    .filter((id): id is string => typeof id === "string");
+}
+
+const ollamaBackend: CompletionBackend = {
+  kind: "ollama",
+  label: "Ollama",
+  defaultUrl: "http://localhost:11434",
+  framing: "ndjson",
+  endpoint: (baseUrl, request) =>
+    joinUrl(baseUrl, request.system !== undefined ? "/api/chat" : "/api/generate"),
+  buildBody: request => ({
+    model: request.model,
+    ...(request.system !== undefined
+      ? { messages: chatMessages(request), think: false }
+      : {
+          prompt: request.prompt,
+          ...(request.suffix !== undefined ? { suffix: request.suffix } : {}),
+          raw: request.suffix === undefined
+        }),
+    stream: true,
+    ...(request.keepAlive ? { keep_alive: request.keepAlive } : {}),
+    options: {
+      temperature: request.temperature,
+      top_p: request.topP,
+      top_k: request.topK,
+      repeat_penalty: request.repeatPenalty,
+      num_predict: request.maxTokens,
+      stop: request.stop
+    }
+  }),
+  parseChunk(data) {
+    const record = asRecord(data);
+    if (!record) {
+      return null;
+    }
+    const content = asRecord(record.message)?.content;
+    const text = typeof record.response === "string" ? record.response : content;
+    return {
+      text: typeof text === "string" ? text : undefined,
+      done: record.done === true,
+      truncated: record.done_reason === "length",
+      durationMs:
+        typeof record.total_duration === "number" ? record.total_duration / 1_000_000 : undefined
+    };
+  },
+  modelsEndpoint: baseUrl => joinUrl(baseUrl, "/api/tags"),
+  parseModels(data) {
+    const models = asRecord(data)?.models;
+    if (!Array.isArray(models)) {
+      return [];
+    }
+    return models
+      .map(entry => asRecord(entry)?.name)
+      .filter((name): name is string => typeof name === "string");
+  },
+  warmUp: (baseUrl, model, keepAlive) => ({
+    url: joinUrl(baseUrl, "/api/generate"),
+    body: { model, stream: false, ...(keepAlive ? { keep_alive: keepAlive } : {}) }
+  })
+};
+
+const llamaCppBackend: CompletionBackend = {
+  kind: "llamacpp",
+  label: "llama.cpp server",
+  defaultUrl: "http://localhost:8080",
+  framing: "sse",
+  endpoint: (baseUrl, request) =>
+    joinUrl(
+      baseUrl,
+      request.system !== undefined
+        ? "/v1/chat/completions"
+        : request.suffix !== undefined
+          ? "/infill"
+          : "/completion"
+    ),
+  buildBody: request => ({
+    ...(request.system !== undefined
+      ? { messages: chatMessages(request) }
+      : request.suffix !== undefined
+      ? { input_prefix: request.prompt, input_suffix: request.suffix, prompt: "" }
+      : { prompt: request.prompt }),
+    stream: true,
+    cache_prompt: true,
+    n_predict: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    top_k: request.topK,
+    repeat_penalty: request.repeatPenalty,
+    stop: request.stop
+  }),
+  parseChunk(data) {
+    const record = asRecord(data);
+    if (!record) {
+      return null;
+    }
+    if (Array.isArray(record.choices)) {
+      return parseOpenAiChoice(record);
+    }
+    const timings = asRecord(record.timings);
+    let durationMs: number | undefined;
+    if (timings && typeof timings.predicted_ms === "number") {
+      const promptMs = typeof timings.prompt_ms === "number" ? timings.prompt_ms : 0;
+      durationMs = promptMs + timings.predicted_ms;
+    }
+    return {
+      text: typeof record.content === "string" ? record.content : undefined,
+      done: record.stop === true,
+      truncated: record.stopped_limit === true,
+      durationMs
+    };
+  },
+  modelsEndpoint: baseUrl => joinUrl(baseUrl, "/v1/models"),
+  parseModels: parseModelIds,
+  warmUp: () => null
+};
+
+const openAiBackend: CompletionBackend = {
+  kind: "openai",
+  label: "OpenAI-compatible (LM Studio, vLLM)",
+  defaultUrl: "http://localhost:1234",
+  framing: "sse",
+  endpoint: (baseUrl, request) =>
+    openAiPath(baseUrl, request.system !== undefined ? "/chat/completions" : "/completions"),
+  buildBody: request => ({
+    model: request.model,
+    ...(request.system !== undefined
+      ? { messages: chatMessages(request) }
+      : {
+          prompt: request.prompt,
+          ...(request.suffix !== undefined ? { suffix: request.suffix } : {})
+        }),
+    stream: true,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: request.topP,
+    // Some chat servers reject an empty stop list.
+    ...(request.stop.length > 0 ? { stop: request.stop } : {})
+  }),
+  parseChunk(data) {
+    const record = asRecord(data);
+    return record ? parseOpenAiChoice(record) : null;
+  },
+  modelsEndpoint: baseUrl => openAiPath(baseUrl, "/models"),
+  parseModels: parseModelIds,
+  // LM Studio loads models on the first request, so a one-token completion loads it early.
+  warmUp: (baseUrl, model) => ({
+    url: openAiPath(baseUrl, "/completions"),
+    body: { model, prompt: " ", max_tokens: 1, stream: false }
+  })
+};
+
+export const BACKENDS: Record<BackendKind, CompletionBackend> = {
+  ollama: ollamaBackend,
+  llamacpp: llamaCppBackend,
+  openai: openAiBackend
+};
+
+export function getBackend(kind: BackendKind): CompletionBackend {
+  return BACKENDS[kind] ?? ollamaBackend;
+}
+
+function extractPayload(line: string, framing: CompletionBackend["framing"]): string | null {
+  const trimmed = line.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (framing === "ndjson") {
+    return trimmed;
+  }
+  if (!trimmed.startsWith("data:")) {
+    return null;
+  }
+  const payload = trimmed.slice(5).trim();
+  if (!payload || payload === "[DONE]") {
+    return null;
+  }
+  return payload;
+}
+
+export interface StreamOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+  signal: AbortSignal;
+  isStale?: () => boolean;
+  onText: (accumulated: string) => void;
+}
+
+export async function streamCompletion(
+  backend: CompletionBackend,
+  request: CompletionRequest,
+  options: StreamOptions
+): Promise<CompletionResult> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  if (options.signal.aborted) {
+    controller.abort();
+  } else {
+    options.signal.addEventListener("abort", onAbort);
+  }
+  const timeoutId = window.setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json"
+  };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+
+  let text = "";
+  let truncated = false;
+  let durationMs: number | null = null;
+
+  try {
+    const response = await fetch(backend.endpoint(options.baseUrl, request), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(backend.buildBody(request)),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      throw new CompletionError("http", `request failed with status ${response.status}`, response.status);
+    }
+
+    if (!response.body) {
+      throw new CompletionError("empty-body", "response body empty");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let finished = false;
+
+    while (!finished) {
+      const { done, value } = await reader.read();
+
+      if (options.isStale?.()) {
+        await reader.cancel();
+        break;
+      }
+
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const payload = extractPayload(line, backend.framing);
+        if (payload === null) {
+          continue;
+        }
+        let chunk: StreamChunk | null = null;
+        try {
+          chunk = backend.parseChunk(JSON.parse(payload));
+        } catch (e) {
+          // Ignore parse errors for partial lines
+        }
+        if (!chunk) {
+          continue;
+        }
+        if (chunk.text) {
+          text += chunk.text;
+          options.onText(text);
+        }
+        if (chunk.truncated) {
+          truncated = true;
+        }
+        if (typeof chunk.durationMs === "number") {
+          durationMs = chunk.durationMs;
+        }
+        if (chunk.done) {
+          finished = true;
+        }
+      }
+    }
+
+    if (finished) {
+      await reader.cancel();
+    }
+  } catch (error) {
+    if (error instanceof CompletionError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      if (timedOut) {
+        throw new CompletionError("timeout", `request timed out after ${options.timeoutMs} ms`);
+      }
+      throw new CompletionError("aborted", "request aborted");
+    }
+    throw new CompletionError("network", error instanceof Error ? error.message : String(error));
+  } finally {
+    window.clearTimeout(timeoutId);
+    options.signal.removeEventListener("abort", onAbort);
+  }
+
+  return { text, truncated, durationMs };
+}
+
+export interface ListModelsOptions {
+  baseUrl: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+function toCompletionError(error: unknown, timeoutMs: number): CompletionError {
+  if (error instanceof CompletionError) {
+    return error;
+  }
+  if (error instanceof Error && error.name === "AbortError") {
+    return new CompletionError("timeout", `request timed out after ${timeoutMs} ms`);
+  }
+  return new CompletionError("network", error instanceof Error ? error.message : String(error));
+}
+
+export async function listModels(
+  backend: CompletionBackend,
+  options: ListModelsOptions
+): Promise<string[]> {
+  const controller = new AbortController();
+  const timeoutId = window.setTimeout(() => controller.abort(), options.timeoutMs);
+  const headers: Record<string, string> = {};
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+  try {
+    const response = await fetch(backend.modelsEndpoint(options.baseUrl), {
+      headers,
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new CompletionError("http", `request failed with status ${response.status}`, response.status);
+    }
+    return backend.parseModels(await response.json()).sort((a, b) => a.localeCompare(b));
+  } catch (error) {
+    throw toCompletionError(error, options.timeoutMs);
+  } finally {
+    window.clearTimeout(timeoutId);
+  }
+}
+
+export async function warmUpModel(
+  backend: CompletionBackend,
+  model: string,
+  keepAlive: string,
+  options: ListModelsOptions
+): Promise<void> {
+  const warmUp = backend.warmUp(options.baseUrl, model, keepAlive);
+  if (!warmUp) {
+    return;
+  }
+  const controller = new AbortController();
+  const timeoutId = window.setTimeout(() => controller.abort(), options.timeoutMs);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json"
+  };
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`;
+  }
+  try {
+    const response = await fetch(warmUp.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(warmUp.body),
+      signal: controller.signal
+    });
+    if (!response.ok) {
+      throw new CompletionError("http", `request failed with status ${response.status}`, response.status);
+    }
+    await response.text();
+  } catch (error) {
+    throw toCompletionError(error, options.timeoutMs);
+  } finally {
+    window.clearTimeout(timeoutId);
+  }
+}
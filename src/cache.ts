@@ -0,0 +1,80 @@
+const ANCHOR_CHARS = 48;
+
+export interface CacheKey {
+  // Backend, model and every setting that changes the request, so entries never cross them.
+  scope: string;
+  prefix: string;
+  suffix: string | null;
+}
+
+interface CacheEntry {
+  key: CacheKey;
+  candidates: string[];
+}
+
+function keyString(key: CacheKey): string {
+  return [key.scope, key.suffix ?? "", key.prefix].join("\u0000");
+}
+
+export class CompletionCache {
+  private readonly entries: Map<string, CacheEntry>;
+  private readonly limit: number;
+
+  constructor(limit: number) {
+    this.entries = new Map();
+    this.limit = limit;
+  }
+
+  // Also finds entries the user has typed into: the text before the cursor then ends with the
+  // cached text before the cursor plus a start of one of its candidates.
+  get(key: CacheKey): string[] | null {
+    const id = keyString(key);
+    const exact = this.entries.get(id);
+    if (exact) {
+      this.entries.delete(id);
+      this.entries.set(id, exact);
+      return exact.candidates;
+    }
+    const { prefix } = key;
+    for (const entry of this.entries.values()) {
+      if (entry.key.scope !== key.scope || entry.key.suffix !== key.suffix) {
+        continue;
+      }
+      const anchor = entry.key.prefix.slice(-ANCHOR_CHARS);
+      const longest = Math.max(...entry.candidates.map(candidate => candidate.length)) - 1;
+      for (let typedLength = 1; typedLength <= longest; typedLength++) {
+        if (!prefix.slice(0, prefix.length - typedLength).endsWith(anchor)) {
+          continue;
+        }
+        const typed = prefix.slice(prefix.length - typedLength);
+        const candidates = entry.candidates
+          .filter(candidate => candidate.length > typed.length && candidate.startsWith(typed))
+          .map(candidate => candidate.slice(typed.length));
+        if (candidates.length > 0) {
+          return candidates;
+        }
+      }
+    }
+    return null;
+  }
+
+  set(key: CacheKey, candidates: string[]): void {
+    if (candidates.length === 0) {
+      return;
+    }
+    const id = keyString(key);
+    this.entries.delete(id);
+    this.entries.set(id, { key, candidates });
+    while (this.entries.size > this.limit) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,49 @@
+import { stripThinking } from "./filters";
+
+export const CURSOR_MARKER = "<cursor/>";
+
+export const DEFAULT_CHAT_INSTRUCTION =
+  "You are an autocomplete engine for a Markdown notes app. The user sends a note with the cursor " +
+  `marked as ${CURSOR_MARKER}. Reply with only the text to insert at the cursor, continuing naturally ` +
+  "from the last character before it in the same language, tone and formatting. If the text before " +
+  "the cursor ends in the middle of a word, finish the word; if a new word starts, begin your reply " +
+  "with a space. Never repeat text that is already in the note, and never add explanations, quotes " +
+  "or code fences.";
+
+export const CHAT_REWRITE_INSTRUCTION =
+  "You are a careful editor. Do exactly what the user's task asks and reply with only the " +
+  "rewritten text inside <rewrite> tags.";
+
+// Chat replies spend a few tokens on preambles the clean-up removes again.
+export const CHAT_EXTRA_TOKENS = 16;
+
+const PREAMBLE_WORDS = "sure|okay|ok|certainly|of course|here(?:'s| is| are)?|continuation|completion|output";
+const PREAMBLE = new RegExp(`^\\s*(?:${PREAMBLE_WORDS})\\b[^\\n]*?:[ \\t]*(?:\\n+|$)`, "i");
+// While streaming, a first line like "Here is" may still turn into a preamble.
+const POSSIBLE_PREAMBLE = new RegExp(`^\\s*(?:${PREAMBLE_WORDS})\\b[^\\n:]*$`, "i");
+
+export function buildChatMessage(prompt: string, suffix: string | null): string {
+  return `${prompt}${CURSOR_MARKER}${suffix ?? ""}`;
+}
+
+// Pulls the text to insert out of a chat reply: without reasoning, preambles, code fences,
+// wrapping quotes or a copy of the note up to the cursor marker.
+export function extractContinuation(text: string, singleLine: boolean, final: boolean): string {
+  let body = stripThinking(text);
+  const marker = body.indexOf(CURSOR_MARKER);
+  if (marker !== -1) {
+    body = body.slice(marker + CURSOR_MARKER.length);
+  }
+  body = body.replace(PREAMBLE, "");
+  if (!final && POSSIBLE_PREAMBLE.test(body)) {
+    return "";
+  }
+  body = body.replace(/^\s*```[\w-]*\n/, "").replace(/\n```\s*$/, "");
+  if (final) {
+    body = body.replace(/^(\s*)["“]([^"“”]*)["”]\s*$/, "$1$2");
+  }
+  if (singleLine) {
+    body = body.replace(/^\n+/, "").split("\n")[0];
+  }
+  return body;
+}
@@ -0,0 +1,250 @@
+import { EditorState, StateField, Text } from "@codemirror/state";
+import { HEADING_PATTERN, getFrontmatterEnd } from "./templates";
+
+interface Section {
+  heading: string | null;
+  level: number;
+  from: number;
+  bodyFrom: number;
+  to: number;
+}
+
+// Starts of the lines that look like headings or code fences. Each line is classified on its own,
+// so an edit only rescans the lines it touches.
+interface StructureLines {
+  headings: number[];
+  fences: number[];
+}
+
+interface ContextPiece {
+  from: number;
+  to: number;
+  text: string;
+}
+
+// Roughly what BPE tokenizers produce: a token per four letters of a word, one per CJK
+// character and one per punctuation mark. Good enough to size a prompt, not to bill it.
+const TOKEN_PIECES =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{M}\p{N}_]+|[^\s\p{L}\p{M}\p{N}_]/gu;
+const CHARS_PER_TOKEN = 4;
+// No estimate gives fewer tokens than this, so older text never needs to be measured.
+const MAX_CHARS_PER_TOKEN = 16;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const SENTENCE_END = /[.!?…](?=\s|$)|[。！？]/u;
+const PARAGRAPH_BREAK = /\n[ \t]*\n/g;
+const LINE_BREAK = /\n/g;
+const SENTENCE_BREAK = /[.!?…]["'”’»)\]]*\s+|[。！？]["'」』）]*/gu;
+const WORD_BREAK = /\s+/g;
+
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(TOKEN_PIECES)) {
+    tokens += piece.length > 1 ? Math.ceil(piece.length / CHARS_PER_TOKEN) : 1;
+  }
+  return tokens;
+}
+
+// The smallest start whose tail fits the budget; token estimates only grow with length.
+function fitTail(text: string, budget: number): number {
+  if (estimateTokens(text) <= budget) {
+    return 0;
+  }
+  let low = Math.max(0, text.length - budget * MAX_CHARS_PER_TOKEN);
+  let high = text.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (estimateTokens(text.slice(mid)) <= budget) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+// Moves the start forward to the nearest paragraph, line, sentence or word boundary, preferring
+// the coarser ones as long as they keep at least half of the text that fits.
+function alignStart(text: string, start: number): number {
+  if (start === 0) {
+    return 0;
+  }
+  const keep = (text.length - start) / 2;
+  for (const pattern of [PARAGRAPH_BREAK, LINE_BREAK, SENTENCE_BREAK, WORD_BREAK]) {
+    pattern.lastIndex = Math.max(0, start - 1);
+    let match = pattern.exec(text);
+    while (match && match.index + match[0].length < start) {
+      match = pattern.exec(text);
+    }
+    const end = match ? match.index + match[0].length : -1;
+    if (end !== -1 && end < text.length && (text.length - end >= keep || pattern === WORD_BREAK)) {
+      return end;
+    }
+  }
+  return start;
+}
+
+function scanLines(doc: Text, from: number, to: number, into: StructureLines): void {
+  for (let lineNo = doc.lineAt(from).number; lineNo <= doc.lineAt(to).number; lineNo++) {
+    const line = doc.line(lineNo);
+    if (FENCE_PATTERN.test(line.text)) {
+      into.fences.push(line.from);
+    } else if (HEADING_PATTERN.test(line.text)) {
+      into.headings.push(line.from);
+    }
+  }
+}
+
+function scanDocument(doc: Text): StructureLines {
+  const lines: StructureLines = { headings: [], fences: [] };
+  scanLines(doc, 0, doc.length, lines);
+  return lines;
+}
+
+export const structureField = StateField.define<StructureLines>({
+  create: state => scanDocument(state.doc),
+  update(value, tr) {
+    if (!tr.docChanged) {
+      return value;
+    }
+    const oldDoc = tr.startState.doc;
+    const touched: [number, number][] = [];
+    const rescan: [number, number][] = [];
+    tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+      touched.push([oldDoc.lineAt(fromA).from, oldDoc.lineAt(toA).to]);
+      rescan.push([fromB, toB]);
+    });
+    const keep = (pos: number) => !touched.some(([from, to]) => pos >= from && pos <= to);
+    const next: StructureLines = {
+      headings: value.headings.filter(keep).map(pos => tr.changes.mapPos(pos)),
+      fences: value.fences.filter(keep).map(pos => tr.changes.mapPos(pos))
+    };
+    for (const [from, to] of rescan) {
+      scanLines(tr.state.doc, from, to, next);
+    }
+    const sort = (positions: number[]) => [...new Set(positions)].sort((a, b) => a - b);
+    return { headings: sort(next.headings), fences: sort(next.fences) };
+  }
+});
+
+function firstSentence(body: string): string {
+  const paragraph = body.trim().split(/\n[ \t]*\n/)[0] ?? "";
+  const end = paragraph.search(SENTENCE_END);
+  return end === -1 ? paragraph.split("\n")[0].trim() : paragraph.slice(0, end + 1).trim();
+}
+
+// Headings on the cursor's line don't start a section, so the heading being typed stays in the body.
+function parseSections(doc: Text, lines: StructureLines, from: number, pos: number): Section[] {
+  const sections: Section[] = [{ heading: null, level: 7, from, bodyFrom: from, to: pos }];
+  const cursorLineFrom = doc.lineAt(pos).from;
+  const fences = lines.fences.filter(fence => fence >= from && fence < cursorLineFrom);
+  let fenceIndex = 0;
+  for (const lineFrom of lines.headings) {
+    if (lineFrom < from) {
+      continue;
+    }
+    if (lineFrom >= cursorLineFrom) {
+      break;
+    }
+    while (fenceIndex < fences.length && fences[fenceIndex] < lineFrom) {
+      fenceIndex++;
+    }
+    const line = doc.lineAt(lineFrom);
+    const match = fenceIndex % 2 === 1 ? null : line.text.match(HEADING_PATTERN);
+    if (match) {
+      sections[sections.length - 1].to = line.from;
+      sections.push({
+        heading: line.text,
+        level: match[1].length,
+        from: line.from,
+        bodyFrom: Math.min(line.to + 1, pos),
+        to: pos
+      });
+    }
+  }
+  return sections[0].to === sections[0].from ? sections.slice(1) : sections;
+}
+
+function joinPieces(pieces: ContextPiece[]): string {
+  let text = "";
+  let previousTo: number | null = null;
+  for (const piece of pieces) {
+    text =
+      previousTo === null || previousTo === piece.from
+        ? text + piece.text
+        : `${text.trimEnd()}\n\n${piece.text}`;
+    previousTo = piece.to;
+  }
+  return text;
+}
+
+// Builds the text before the cursor for a token budget. The section being written is kept from a
+// paragraph or sentence boundary up to the cursor, the headings above it are always kept, and
+// earlier sections are added whole while they fit, then shortened to their heading and first sentence.
+export function buildContext(state: EditorState, pos: number, budget: number): string {
+  const { doc } = state;
+  const frontmatterEnd = getFrontmatterEnd(doc);
+  const start = frontmatterEnd <= pos ? frontmatterEnd : 0;
+  const lines = state.field(structureField, false) ?? scanDocument(doc);
+  const sections = parseSections(doc, lines, start, pos);
+  if (sections.length === 0) {
+    const text = doc.sliceString(start, pos);
+    return text.slice(alignStart(text, fitTail(text, budget)));
+  }
+  const current = sections[sections.length - 1];
+  const ancestors = new Set<Section>();
+  let level = current.heading ? current.level : 7;
+  for (let index = sections.length - 2; index >= 0 && level > 1; index--) {
+    const section = sections[index];
+    if (section.heading && section.level < level) {
+      ancestors.add(section);
+      level = section.level;
+    }
+  }
+
+  let remaining = budget;
+  for (const section of [...ancestors, current]) {
+    remaining -= section.heading ? estimateTokens(section.heading) : 0;
+  }
+  const body = doc.sliceString(current.bodyFrom, pos);
+  const tailStart = alignStart(body, fitTail(body, Math.max(0, remaining)));
+  remaining -= estimateTokens(body.slice(tailStart));
+  const pieces: ContextPiece[] = [];
+  if (tailStart === 0) {
+    pieces.push({ from: current.from, to: pos, text: doc.sliceString(current.from, pos) });
+  } else {
+    if (current.heading) {
+      pieces.push({ from: current.from, to: current.bodyFrom, text: `${current.heading}\n` });
+    }
+    pieces.push({ from: current.bodyFrom + tailStart, to: pos, text: body.slice(tailStart) });
+  }
+
+  let whole = tailStart === 0;
+  for (let index = sections.length - 2; index >= 0; index--) {
+    const section = sections[index];
+    if (whole) {
+      const text = doc.sliceString(section.from, section.to);
+      const cost = estimateTokens(text);
+      if (cost <= remaining) {
+        pieces.unshift({ from: section.from, to: section.to, text });
+        remaining -= cost;
+        continue;
+      }
+      whole = false;
+    }
+    const sentence = firstSentence(doc.sliceString(section.bodyFrom, section.to));
+    const heading = section.heading ?? "";
+    const summaryCost = sentence ? estimateTokens(sentence) : 0;
+    const headingCost = ancestors.has(section) ? 0 : estimateTokens(heading);
+    if (sentence && summaryCost + headingCost <= remaining) {
+      pieces.unshift({
+        from: section.from,
+        to: section.from,
+        text: [heading, sentence].filter(Boolean).join("\n")
+      });
+      remaining -= summaryCost + headingCost;
+    } else if (ancestors.has(section)) {
+      pieces.unshift({ from: section.from, to: section.from, text: heading });
+    }
+  }
+  return joinPieces(pieces);
+}
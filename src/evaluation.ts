@@ -0,0 +1,297 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+import { EditorState } from "@codemirror/state";
+
+export interface EvaluationSample {
+  file: TFile;
+  line: number;
+  state: EditorState;
+  expected: string;
+}
+
+export interface SampleOutcome {
+  suggestion: string;
+  latencyMs: number;
+  error: string | null;
+}
+
+export interface EvaluationRun {
+  name: string;
+  description: string;
+  outcomes: SampleOutcome[];
+}
+
+export interface EvaluationOptions {
+  samples: number;
+  seed: number;
+  configs: string[];
+  serverUrl: string;
+}
+
+const MAX_EXPECTED_CHARS = 120;
+const MAX_SAMPLES_PER_NOTE = 3;
+const MAX_ATTEMPTS_PER_NOTE = 30;
+const REPORT_EXAMPLES = 10;
+const EXAMPLE_PREFIX_CHARS = 80;
+
+// mulberry32, so the same seed picks the same positions for every configuration and run.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export async function sampleVaultPositions(
+  app: App,
+  count: number,
+  seed: number,
+  isEligible: (state: EditorState, file: TFile) => boolean,
+  isCancelled: () => boolean
+): Promise<EvaluationSample[]> {
+  const random = createRandom(seed);
+  const files = shuffle(
+    app.vault.getMarkdownFiles().sort((a, b) => a.path.localeCompare(b.path)),
+    random
+  );
+  const samples: EvaluationSample[] = [];
+  for (const file of files) {
+    if (samples.length >= count || isCancelled()) {
+      break;
+    }
+    const base = EditorState.create({ doc: await app.vault.cachedRead(file) });
+    if (base.doc.length === 0) {
+      continue;
+    }
+    const taken = new Set<number>();
+    for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_NOTE; attempt++) {
+      if (taken.size >= MAX_SAMPLES_PER_NOTE || samples.length >= count) {
+        break;
+      }
+      const pos = Math.floor(random() * base.doc.length) + 1;
+      const line = base.doc.lineAt(pos);
+      const expected = base.doc.sliceString(pos, Math.min(line.to, pos + MAX_EXPECTED_CHARS));
+      if (taken.has(pos) || !/[\p{L}\p{N}]/u.test(expected)) {
+        continue;
+      }
+      // The expected text is taken out of the note, so a suffix sent with fill-in-the-middle
+      // can't give the answer away.
+      const state = base.update({
+        changes: { from: pos, to: pos + expected.length },
+        selection: { anchor: pos }
+      }).state;
+      if (!isEligible(state, file)) {
+        continue;
+      }
+      taken.add(pos);
+      samples.push({ file, line: line.number, state, expected });
+    }
+  }
+  return samples;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+function formatPercent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "–";
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value)} ms`;
+}
+
+function inlineCode(text: string): string {
+  if (!text) {
+    return "*(none)*";
+  }
+  const visible = text.replace(/\n/g, "⏎");
+  const fence = visible.includes("`") ? "``" : "`";
+  return `${fence} ${visible} ${fence}`;
+}
+
+function summarize(samples: EvaluationSample[], run: EvaluationRun): string {
+  let shown = 0;
+  let exact = 0;
+  let matched = 0;
+  let suggested = 0;
+  let failed = 0;
+  const latencies: number[] = [];
+  run.outcomes.forEach((outcome, index) => {
+    if (outcome.error) {
+      failed++;
+      return;
+    }
+    latencies.push(outcome.latencyMs);
+    if (!outcome.suggestion) {
+      return;
+    }
+    shown++;
+    suggested += outcome.suggestion.length;
+    matched += commonPrefixLength(outcome.suggestion, samples[index].expected);
+    if (samples[index].expected.startsWith(outcome.suggestion)) {
+      exact++;
+    }
+  });
+  const total = run.outcomes.length;
+  return [
+    run.name,
+    formatPercent(shown, total),
+    formatPercent(exact, total),
+    total > 0 ? (matched / total).toFixed(1) : "–",
+    formatPercent(matched, suggested),
+    formatMs(percentile(latencies, 50)),
+    formatMs(percentile(latencies, 95)),
+    String(failed)
+  ].join(" | ");
+}
+
+export function renderEvaluationReport(
+  samples: EvaluationSample[],
+  runs: EvaluationRun[],
+  options: EvaluationOptions
+): string {
+  const notes = new Set(samples.map(sample => sample.file.path)).size;
+  const lines = [
+    "# Smart Compose evaluation",
+    "",
+    `- Date: ${new Date().toISOString().slice(0, 16).replace("T", " ")}`,
+    `- Samples: ${samples.length} cursor positions from ${notes} notes (seed ${options.seed})`,
+    "",
+    "| Configuration | Shown | Exact prefix | Accepted chars | Precision | p50 latency | p95 latency | Failed |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...runs.map(run => `| ${summarize(samples, run)} |`),
+    "",
+    "- **Shown** — positions where a suggestion survived the clean-up filters.",
+    "- **Exact prefix** — positions where the whole suggestion matches what the note actually says next.",
+    "- **Accepted chars** — characters per position that would be correct if the suggestion were taken.",
+    "- **Precision** — share of suggested characters that match the note.",
+    "",
+    "## Configurations",
+    "",
+    ...runs.map(run => `- **${run.name}** — ${run.description}`),
+    "",
+    "## Examples",
+    ""
+  ];
+  samples.slice(0, REPORT_EXAMPLES).forEach((sample, index) => {
+    const pos = sample.state.selection.main.head;
+    const before = sample.state.doc.sliceString(Math.max(0, pos - EXAMPLE_PREFIX_CHARS), pos);
+    lines.push(
+      `### [[${sample.file.path.replace(/\.md$/, "")}]], line ${sample.line}`,
+      "",
+      `- Before: ${inlineCode(before)}`,
+      `- Expected: ${inlineCode(sample.expected)}`,
+      ...runs.map(run => {
+        const outcome = run.outcomes[index];
+        return `- ${run.name}: ${outcome.error ? `failed (${outcome.error})` : inlineCode(outcome.suggestion)}`;
+      }),
+      ""
+    );
+  });
+  return lines.join("\n");
+}
+
+export class EvaluationModal extends Modal {
+  private readonly configs: string[];
+  private readonly onSubmit: (options: EvaluationOptions) => void;
+  private readonly options: EvaluationOptions;
+
+  constructor(app: App, configs: string[], onSubmit: (options: EvaluationOptions) => void) {
+    super(app);
+    this.configs = configs;
+    this.onSubmit = onSubmit;
+    this.options = { samples: 50, seed: 1, configs: [...configs], serverUrl: "" };
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.setTitle("Evaluate suggestions on the vault");
+    contentEl.createEl("p", {
+      text: "Samples cursor positions from your notes, asks each configuration for a suggestion and compares it with the text that follows. The report is saved as a note."
+    });
+
+    new Setting(contentEl)
+      .setName("Positions")
+      .setDesc("Number of cursor positions to sample (5-500).")
+      .addText(text =>
+        text.setValue(String(this.options.samples)).onChange(value => {
+          const parsed = Number.parseInt(value, 10);
+          this.options.samples = Number.isNaN(parsed) ? 50 : Math.max(5, Math.min(500, parsed));
+        })
+      );
+
+    new Setting(contentEl)
+      .setName("Seed")
+      .setDesc("The same seed samples the same positions.")
+      .addText(text =>
+        text.setValue(String(this.options.seed)).onChange(value => {
+          const parsed = Number.parseInt(value, 10);
+          this.options.seed = Number.isNaN(parsed) ? 1 : parsed;
+        })
+      );
+
+    new Setting(contentEl)
+      .setName("Server URL")
+      .setDesc("Send every request to this server instead, for example a mock server. Empty uses each configuration's server.")
+      .addText(text =>
+        text.setPlaceholder("http://localhost:11500").onChange(value => {
+          this.options.serverUrl = value.trim();
+        })
+      );
+
+    new Setting(contentEl).setName("Configurations").setHeading();
+    for (const name of this.configs) {
+      new Setting(contentEl).setName(name).addToggle(toggle =>
+        toggle.setValue(true).onChange(value => {
+          this.options.configs = value
+            ? this.configs.filter(config => config === name || this.options.configs.includes(config))
+            : this.options.configs.filter(config => config !== name);
+        })
+      );
+    }
+
+    new Setting(contentEl).addButton(button =>
+      button
+        .setButtonText("Run")
+        .setCta()
+        .onClick(() => {
+          if (this.options.configs.length === 0) {
+            return;
+          }
+          this.close();
+          this.onSubmit(this.options);
+        })
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
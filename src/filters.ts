@@ -0,0 +1,250 @@
+import { lastWordStart } from "./unicode";
+
+export type SuggestionFilter =
+  | "thinking"
+  | "prefixEcho"
+  | "loops"
+  | "unbalanced"
+  | "partialWord"
+  | "blocklist"
+  | "empty";
+
+export type FilterSettings = Record<SuggestionFilter, boolean>;
+
+export const FILTER_LABELS: Record<SuggestionFilter, { name: string; desc: string }> = {
+  thinking: {
+    name: "Reasoning blocks",
+    desc: "Remove <think> blocks and hide the suggestion while the model is still reasoning."
+  },
+  prefixEcho: {
+    name: "Repeated prefix",
+    desc: "Drop text that repeats what is already before the cursor."
+  },
+  loops: {
+    name: "Loops",
+    desc: "Cut the suggestion where a word or phrase starts repeating itself."
+  },
+  unbalanced: {
+    name: "Unbalanced markup",
+    desc: "Cut before a [[, **, `, ( or [ that the suggestion opens but never closes."
+  },
+  partialWord: {
+    name: "Half-finished words",
+    desc: "Hold back a last word that is still streaming or was cut off by the token limit."
+  },
+  blocklist: {
+    name: "Blocklist",
+    desc: "Cut the suggestion before any blocked word or pattern."
+  },
+  empty: {
+    name: "Empty suggestions",
+    desc: "Hide suggestions that are only whitespace or punctuation."
+  }
+};
+
+export const DEFAULT_FILTERS: FilterSettings = {
+  thinking: true,
+  prefixEcho: true,
+  loops: true,
+  unbalanced: true,
+  partialWord: true,
+  blocklist: true,
+  empty: true
+};
+
+export interface FilterContext {
+  prefix: string;
+  language: string | null;
+  final: boolean;
+  truncated: boolean;
+  blocklist: string[];
+}
+
+type FilterFn = (text: string, context: FilterContext) => string;
+
+const MIN_ECHO_CHARS = 6;
+const MIN_COPIED_CHARS = 20;
+const EMPTY_PATTERN = /^[\s\p{P}\p{S}]*$/u;
+// A whole word or phrase said three times: each copy starts at a separator and has a letter, so
+// digits, dots, dashes and the halves of a word like "hahaha" never count.
+const LOOP_PATTERN =
+  /([^\p{L}\p{M}\p{N}_][^\p{L}]{0,20}?\p{L}[\s\S]{0,38}?)\1{2,}(?![\p{L}\p{M}\p{N}_])/gu;
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}_]+/gu;
+// "very very very good" is emphasis, so a single word only counts as a loop from four copies on.
+const MIN_SINGLE_WORD_COPIES = 4;
+
+export function stripThinking(text: string): string {
+  const withoutBlocks = text.replace(/<think>[\s\S]*?<\/think>\n*/g, "");
+  const open = withoutBlocks.indexOf("<think>");
+  if (open !== -1) {
+    return withoutBlocks.slice(0, open);
+  }
+  // The opening tag may still be arriving token by token.
+  const start = withoutBlocks.trimStart();
+  return start && "<think>".startsWith(start) ? "" : withoutBlocks;
+}
+
+function isBoundary(ch: string | undefined): boolean {
+  return ch === undefined || /[\s\p{P}]/u.test(ch);
+}
+
+function stripPrefixEcho(text: string, context: FilterContext): string {
+  const leading = text.match(/^\s*/)?.[0] ?? "";
+  const body = text.slice(leading.length);
+  const trimmedPrefix = context.prefix.trimEnd();
+  for (let length = Math.min(body.length, trimmedPrefix.length); length >= MIN_ECHO_CHARS; length--) {
+    const start = trimmedPrefix.length - length;
+    if (
+      trimmedPrefix.endsWith(body.slice(0, length)) &&
+      isBoundary(trimmedPrefix[start - 1]) &&
+      isBoundary(body[length])
+    ) {
+      return body.slice(length);
+    }
+  }
+  const sentence = body.trim();
+  if (sentence.length >= MIN_COPIED_CHARS && context.prefix.includes(sentence)) {
+    return "";
+  }
+  return text;
+}
+
+function cutLoops(text: string): string {
+  // The leading space lets a loop that starts the suggestion begin at a separator too.
+  const padded = ` ${text}`;
+  LOOP_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = LOOP_PATTERN.exec(padded)) !== null) {
+    const copies = match[0].length / match[1].length;
+    const words = match[1].match(WORD_PATTERN)?.length ?? 0;
+    if (words > 1 || copies >= MIN_SINGLE_WORD_COPIES) {
+      return text.slice(0, Math.max(0, match.index - 1 + match[1].length)).trimEnd();
+    }
+    LOOP_PATTERN.lastIndex = match.index + 1;
+  }
+  return text;
+}
+
+const CLOSERS: Record<string, string> = { "]]": "[[", ")": "(", "]": "[" };
+
+function countOccurrences(text: string, token: string): number {
+  return text.split(token).length - 1;
+}
+
+function cutUnbalanced(text: string, context: FilterContext): string {
+  // Bold and code spans opened earlier on the cursor line may be closed by the suggestion.
+  const line = context.prefix.slice(context.prefix.lastIndexOf("\n") + 1);
+  const openInPrefix = new Set<string>();
+  if (countOccurrences(line, "**") % 2 === 1) {
+    openInPrefix.add("**");
+  }
+  if (countOccurrences(line, "`") % 2 === 1) {
+    openInPrefix.add("`");
+  }
+  const open: { token: string; index: number }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const two = text.slice(i, i + 2);
+    const token =
+      two === "[[" || two === "]]" || two === "**" ? two : "()[]`".includes(text[i]) ? text[i] : null;
+    if (!token) {
+      continue;
+    }
+    i += token.length - 1;
+    if ((token === "**" || token === "`") && openInPrefix.has(token)) {
+      openInPrefix.delete(token);
+    } else if (token === "**" || token === "`") {
+      const top = open[open.length - 1];
+      if (top && top.token === token) {
+        open.pop();
+      } else {
+        open.push({ token, index: i - token.length + 1 });
+      }
+    } else if (CLOSERS[token]) {
+      const top = open[open.length - 1];
+      if (top && top.token === CLOSERS[token]) {
+        open.pop();
+      }
+    } else {
+      open.push({ token, index: i - token.length + 1 });
+    }
+  }
+  // An opener that starts the suggestion, as in " (see note", is kept rather than leaving nothing.
+  const cut = open.find(entry => text.slice(0, entry.index).trim().length > 0);
+  return cut ? text.slice(0, cut.index).trimEnd() : text;
+}
+
+function holdPartialWord(text: string, context: FilterContext): string {
+  if (context.final && !context.truncated) {
+    return text;
+  }
+  const start = lastWordStart(text, context.language);
+  if (start <= 0 || text.slice(0, start).trim().length === 0) {
+    return text;
+  }
+  return text.slice(0, start).trimEnd();
+}
+
+function compileBlocklist(entries: string[]): RegExp[] {
+  const patterns: RegExp[] = [];
+  for (const entry of entries) {
+    const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+      if (regex) {
+        patterns.push(new RegExp(regex[1], regex[2].replace("g", "")));
+      } else if (entry.trim()) {
+        const escaped = entry.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        patterns.push(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu"));
+      }
+    } catch (error) {
+      console.warn("[Smart Compose]", "invalid blocklist pattern", entry);
+    }
+  }
+  return patterns;
+}
+
+let compiledBlocklist: { source: string[]; patterns: RegExp[] } | null = null;
+
+function cutBlocked(text: string, context: FilterContext): string {
+  if (compiledBlocklist?.source !== context.blocklist) {
+    compiledBlocklist = { source: context.blocklist, patterns: compileBlocklist(context.blocklist) };
+  }
+  let end = text.length;
+  for (const pattern of compiledBlocklist.patterns) {
+    const match = pattern.exec(text);
+    if (match && match.index < end) {
+      end = match.index;
+    }
+  }
+  return end < text.length ? text.slice(0, end).trimEnd() : text;
+}
+
+function dropEmpty(text: string): string {
+  return EMPTY_PATTERN.test(text) ? "" : text;
+}
+
+const PIPELINE: [SuggestionFilter, FilterFn][] = [
+  ["thinking", stripThinking],
+  ["prefixEcho", stripPrefixEcho],
+  ["loops", cutLoops],
+  ["unbalanced", cutUnbalanced],
+  ["partialWord", holdPartialWord],
+  ["blocklist", cutBlocked],
+  ["empty", dropEmpty]
+];
+
+export function filterSuggestion(
+  text: string,
+  context: FilterContext,
+  enabled: FilterSettings
+): string {
+  let result = text;
+  for (const [id, filter] of PIPELINE) {
+    if (!result) {
+      break;
+    }
+    if (enabled[id]) {
+      result = filter(result, context);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+export type FimMode = "off" | "native" | "qwen" | "codellama" | "starcoder";
+
+interface FimTemplate {
+  label: string;
+  build(prefix: string, suffix: string): string;
+  stop: string[];
+}
+
+const FIM_TEMPLATES: Record<Exclude<FimMode, "off" | "native">, FimTemplate> = {
+  qwen: {
+    label: "Qwen (<|fim_prefix|>)",
+    build: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+    stop: ["<|endoftext|>", "<|fim_pad|>", "<|file_sep|>", "<|repo_name|>"]
+  },
+  codellama: {
+    label: "CodeLlama (<PRE> <SUF> <MID>)",
+    build: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+    stop: ["<EOT>"]
+  },
+  starcoder: {
+    label: "StarCoder (<fim_prefix>)",
+    build: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+    stop: ["<|endoftext|>", "<file_sep>"]
+  }
+};
+
+export const FIM_MODE_LABELS: Record<FimMode, string> = {
+  off: "Off (prefix only)",
+  native: "Native (server-side suffix)",
+  qwen: FIM_TEMPLATES.qwen.label,
+  codellama: FIM_TEMPLATES.codellama.label,
+  starcoder: FIM_TEMPLATES.starcoder.label
+};
+
+export interface FimPrompt {
+  prompt: string;
+  suffix?: string;
+  stop: string[];
+}
+
+export function applyFim(mode: FimMode, prompt: string, suffix: string): FimPrompt {
+  if (mode === "off") {
+    return { prompt, stop: [] };
+  }
+  if (mode === "native") {
+    return { prompt, suffix, stop: [] };
+  }
+  const template = FIM_TEMPLATES[mode];
+  return { prompt: template.build(prompt, suffix), stop: template.stop };
+}
+
+export function trimSuffixOverlap(text: string, suffix: string): string {
+  const head = suffix.trimStart();
+  if (head.length < 3) {
+    return text;
+  }
+  for (let length = Math.min(head.length, text.length); length >= 3; length--) {
+    const boundary = length === head.length || !/\w/.test(head[length]);
+    if (boundary && text.endsWith(head.slice(0, length))) {
+      return text.slice(0, text.length - length).trimEnd();
+    }
+  }
+  return text;
+}
@@ -0,0 +1,96 @@
+import { CompletionError } from "./backends";
+
+export type ConnectionStatus = "idle" | "requesting" | "error" | "disabled";
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60000;
+
+export class ConnectionHealth {
+  private active: number;
+  private failures: number;
+  private backoffUntil: number;
+  private lastError: CompletionError | null;
+  private lastLatencyMs: number | null;
+  private readonly listeners: Set<() => void>;
+
+  constructor() {
+    this.active = 0;
+    this.failures = 0;
+    this.backoffUntil = 0;
+    this.lastError = null;
+    this.lastLatencyMs = null;
+    this.listeners = new Set();
+  }
+
+  canRequest(): boolean {
+    return Date.now() >= this.backoffUntil;
+  }
+
+  getStatus(enabled: boolean): ConnectionStatus {
+    if (!enabled) {
+      return "disabled";
+    }
+    if (this.active > 0) {
+      return "requesting";
+    }
+    return this.lastError ? "error" : "idle";
+  }
+
+  getLastLatency(): number | null {
+    return this.lastLatencyMs;
+  }
+
+  getLastError(): CompletionError | null {
+    return this.lastError;
+  }
+
+  getRetryInMs(): number {
+    return Math.max(0, this.backoffUntil - Date.now());
+  }
+
+  requestStarted(): void {
+    this.active++;
+    this.notify();
+  }
+
+  requestSucceeded(latencyMs: number): void {
+    this.active = Math.max(0, this.active - 1);
+    this.lastLatencyMs = Math.round(latencyMs);
+    this.reset();
+  }
+
+  requestFailed(error: CompletionError): void {
+    this.active = Math.max(0, this.active - 1);
+    if (error.kind === "aborted") {
+      this.notify();
+      return;
+    }
+    this.lastError = error;
+    // A slow model times out without the server being down, so only hard failures back off.
+    if (error.kind !== "timeout") {
+      this.failures++;
+      const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (this.failures - 1));
+      this.backoffUntil = Date.now() + delay;
+      if (this.failures === 1) {
+        console.warn("[Smart Compose]", "completion server unavailable", error.message);
+      }
+    }
+    this.notify();
+  }
+
+  reset(): void {
+    this.failures = 0;
+    this.backoffUntil = 0;
+    this.lastError = null;
+    this.notify();
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
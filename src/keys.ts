@@ -0,0 +1,63 @@
+export interface KeySpec {
+  key: string;
+  mod: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "Escape",
+  right: "ArrowRight",
+  left: "ArrowLeft",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  return: "Enter",
+  space: " "
+};
+
+// Parses CodeMirror-style key names such as "Tab", "Mod-Enter" or "Alt-l".
+export function parseKeySpec(spec: string): KeySpec | null {
+  const parts = spec.trim().split("-");
+  const key = parts.pop()?.trim();
+  if (!key) {
+    return null;
+  }
+  const result: KeySpec = {
+    key: KEY_ALIASES[key.toLowerCase()] ?? key,
+    mod: false,
+    alt: false,
+    shift: false
+  };
+  for (const part of parts) {
+    const modifier = part.trim().toLowerCase();
+    if (modifier === "mod" || modifier === "ctrl" || modifier === "cmd" || modifier === "meta") {
+      result.mod = true;
+    } else if (modifier === "alt" || modifier === "option") {
+      result.alt = true;
+    } else if (modifier === "shift") {
+      result.shift = true;
+    } else {
+      return null;
+    }
+  }
+  return result;
+}
+
+export function matchesKey(event: KeyboardEvent, spec: KeySpec): boolean {
+  const mod = event.ctrlKey || event.metaKey;
+  if (mod !== spec.mod || event.altKey !== spec.alt || event.shiftKey !== spec.shift) {
+    return false;
+  }
+  if (event.key.toLowerCase() === spec.key.toLowerCase()) {
+    return true;
+  }
+  // Alt changes the produced character on macOS, so fall back to the physical key.
+  return /^[a-z]$/i.test(spec.key) && event.code === `Key${spec.key.toUpperCase()}`;
+}
+
+export function matchesAnyKey(event: KeyboardEvent, specs: string[]): boolean {
+  return specs.some(spec => {
+    const parsed = parseKeySpec(spec);
+    return parsed !== null && matchesKey(event, parsed);
+  });
+}
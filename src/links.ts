@@ -0,0 +1,191 @@
+import { App, TFile, getAllTags, parseFrontMatterAliases } from "obsidian";
+import { Text } from "@codemirror/state";
+
+export type LinkContext =
+  | { kind: "link"; query: string; closed: boolean }
+  | { kind: "tag"; query: string };
+
+interface NoteEntry {
+  file: TFile;
+  name: string;
+  path: string;
+  aliases: string[];
+  incoming: number;
+}
+
+interface TagEntry {
+  tag: string;
+  count: number;
+}
+
+const TAG_CONTEXT_PATTERN = /(?:^|\s)#([\p{L}\p{N}_/-]+)$/u;
+const WIKILINK_PATTERN = /\[\[([^\]|#^]*)([#^][^\]|]*)?(\|[^\]]*)?\]\]/g;
+
+export function detectLinkContext(doc: Text, pos: number): LinkContext | null {
+  const line = doc.lineAt(pos);
+  const before = line.text.slice(0, pos - line.from);
+  const open = before.lastIndexOf("[[");
+  if (open !== -1 && before.indexOf("]]", open) === -1) {
+    const query = before.slice(open + 2);
+    if (!query.trim() || query.includes("|")) {
+      return null;
+    }
+    return { kind: "link", query, closed: line.text.slice(pos - line.from).startsWith("]]") };
+  }
+  const tag = before.match(TAG_CONTEXT_PATTERN);
+  if (tag && !/^\d+$/.test(tag[1])) {
+    return { kind: "tag", query: tag[1] };
+  }
+  return null;
+}
+
+function rankByPrefix<T>(
+  entries: T[],
+  query: string,
+  label: (entry: T) => string,
+  weight: (entry: T) => number,
+  limit: number
+): string[] {
+  const lower = query.toLowerCase();
+  return entries
+    .map(entry => ({ entry, text: label(entry) }))
+    .filter(({ text }) => text.length > query.length && text.toLowerCase().startsWith(lower))
+    .sort(
+      (a, b) =>
+        Number(b.text.startsWith(query)) - Number(a.text.startsWith(query)) ||
+        weight(b.entry) - weight(a.entry) ||
+        a.text.length - b.text.length
+    )
+    .slice(0, limit)
+    .map(({ text }) => text);
+}
+
+export class VaultLinkIndex {
+  private readonly app: App;
+  private notes: NoteEntry[] | null;
+  private tags: TagEntry[] | null;
+
+  constructor(app: App) {
+    this.app = app;
+    this.notes = null;
+    this.tags = null;
+  }
+
+  invalidate(): void {
+    this.notes = null;
+    this.tags = null;
+  }
+
+  complete(context: LinkContext, sourcePath: string, limit: number): string[] {
+    if (context.kind === "tag") {
+      return rankByPrefix(
+        this.getTags(),
+        context.query,
+        entry => entry.tag,
+        entry => entry.count,
+        limit
+      ).map(tag => tag.slice(context.query.length));
+    }
+    const close = context.closed ? "" : "]]";
+    const hash = context.query.indexOf("#");
+    if (hash !== -1) {
+      const notePart = context.query.slice(0, hash).trim();
+      const headingQuery = context.query.slice(hash + 1);
+      const target = notePart
+        ? this.app.metadataCache.getFirstLinkpathDest(notePart, sourcePath)
+        : this.app.vault.getAbstractFileByPath(sourcePath);
+      if (!(target instanceof TFile)) {
+        return [];
+      }
+      const headings = this.app.metadataCache.getFileCache(target)?.headings ?? [];
+      return rankByPrefix(
+        headings,
+        headingQuery,
+        heading => heading.heading,
+        heading => -heading.level,
+        limit
+      ).map(heading => `${heading.slice(headingQuery.length)}${close}`);
+    }
+    const byPath = context.query.includes("/");
+    return rankByPrefix(
+      this.getNotes(),
+      context.query,
+      entry => (byPath ? entry.path : entry.name),
+      entry => entry.incoming,
+      limit
+    ).map(name => `${name.slice(context.query.length)}${close}`);
+  }
+
+  // Rewrites [[links]] to missing notes when a note or alias matches by name, and otherwise
+  // cuts the text before the first broken link.
+  validate(text: string, sourcePath: string): string {
+    const { metadataCache } = this.app;
+    let result = "";
+    let last = 0;
+    WIKILINK_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = WIKILINK_PATTERN.exec(text)) !== null) {
+      const target = match[1].trim();
+      if (!target || metadataCache.getFirstLinkpathDest(target, sourcePath)) {
+        continue;
+      }
+      const note = this.findNote(target);
+      if (!note) {
+        return (result + text.slice(last, match.index)).trimEnd();
+      }
+      const linktext = metadataCache.fileToLinktext(note.file, sourcePath, true);
+      const display =
+        match[3] ?? (note.name.toLowerCase() === target.toLowerCase() ? "" : `|${target}`);
+      result += `${text.slice(last, match.index)}[[${linktext}${match[2] ?? ""}${display}]]`;
+      last = match.index + match[0].length;
+    }
+    return result + text.slice(last);
+  }
+
+  private findNote(target: string): NoteEntry | null {
+    const lower = target.toLowerCase();
+    const notes = this.getNotes();
+    return (
+      notes.find(entry => entry.name.toLowerCase() === lower) ??
+      notes.find(entry => entry.aliases.some(alias => alias.toLowerCase() === lower)) ??
+      null
+    );
+  }
+
+  private getNotes(): NoteEntry[] {
+    if (this.notes) {
+      return this.notes;
+    }
+    const { metadataCache, vault } = this.app;
+    const incoming = new Map<string, number>();
+    for (const targets of Object.values(metadataCache.resolvedLinks)) {
+      for (const [path, count] of Object.entries(targets)) {
+        incoming.set(path, (incoming.get(path) ?? 0) + count);
+      }
+    }
+    this.notes = vault.getMarkdownFiles().map(file => ({
+      file,
+      name: file.basename,
+      path: file.path.replace(/\.md$/, ""),
+      aliases: parseFrontMatterAliases(metadataCache.getFileCache(file)?.frontmatter) ?? [],
+      incoming: incoming.get(file.path) ?? 0
+    }));
+    return this.notes;
+  }
+
+  private getTags(): TagEntry[] {
+    if (this.tags) {
+      return this.tags;
+    }
+    const counts = new Map<string, number>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(file);
+      for (const tag of new Set(cache ? getAllTags(cache) ?? [] : [])) {
+        const name = tag.replace(/^#/, "");
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      }
+    }
+    this.tags = [...counts.entries()].map(([tag, count]) => ({ tag, count }));
+    return this.tags;
+  }
+}
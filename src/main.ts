@@ -1,4 +1,17 @@
-import { App, Plugin, PluginSettingTab, Setting } from "obsidian";
+import {
+  App,
+  DropdownComponent,
+  Editor,
+  Notice,
+  Plugin,
+  PluginSettingTab,
+  Setting,
+  TFile,
+  WorkspaceLeaf,
+  editorInfoField,
+  getAllTags,
+  normalizePath
+} from "obsidian";
 import {
   Decoration,
   EditorView,
@@ -7,46 +20,254 @@ import {
   WidgetType,
   keymap
 } from "@codemirror/view";
-import { Prec, StateEffect, StateField, Text } from "@codemirror/state";
-
-interface AutocompleteSettings {
-  ollamaUrl: string;
+import {
+  Annotation,
+  EditorState,
+  Prec,
+  StateEffect,
+  StateField,
+  Transaction
+} from "@codemirror/state";
+import {
+  BACKENDS,
+  BackendKind,
+  CompletionError,
+  CompletionRequest,
+  getBackend,
+  listModels,
+  warmUpModel
+} from "./backends";
+import { CacheKey } from "./cache";
+import {
+  CHAT_EXTRA_TOKENS,
+  CHAT_REWRITE_INSTRUCTION,
+  CURSOR_MARKER,
+  DEFAULT_CHAT_INSTRUCTION,
+  buildChatMessage,
+  extractContinuation
+} from "./chat";
+import { buildContext, structureField } from "./context";
+import {
+  EvaluationModal,
+  EvaluationOptions,
+  EvaluationRun,
+  EvaluationSample,
+  SampleOutcome,
+  renderEvaluationReport,
+  sampleVaultPositions
+} from "./evaluation";
+import { FIM_MODE_LABELS, FimMode, FimPrompt, applyFim, trimSuffixOverlap } from "./fim";
+import { DEFAULT_FILTERS, FILTER_LABELS, FilterSettings, SuggestionFilter, filterSuggestion } from "./filters";
+import { ConnectionHealth, ConnectionStatus } from "./health";
+import { matchesAnyKey, parseKeySpec } from "./keys";
+import { LinkContext, VaultLinkIndex, detectLinkContext } from "./links";
+import {
+  LOCAL_COMPLETION_LABELS,
+  LOCAL_MODEL_NAME,
+  LocalCompletionMode,
+  VaultNgramModel
+} from "./ngram";
+import {
+  CompletionProfile,
+  PROFILE_FRONTMATTER_KEY,
+  ProfileOverrides,
+  createProfile,
+  matchProfile
+} from "./profiles";
+import { PrivacyRules, SentPrompt, SentPromptModal, isExcludedNote, redactText } from "./privacy";
+import {
+  ProvenanceData,
+  ProvenanceModal,
+  ProvenanceStore,
+  aiInsertion,
+  createProvenanceExtension,
+  provenanceField,
+  setProvenanceEffect
+} from "./provenance";
+import { RelatedNote, VaultContextProvider } from "./retrieval";
+import { AdaptiveScheduler } from "./scheduler";
+import { CompletionService } from "./service";
+import {
+  REWRITE_STOPS,
+  RewriteInstructionModal,
+  buildRewritePrompt,
+  cleanRewrite,
+  clearRewriteEffect,
+  rewriteDecorations,
+  rewriteField,
+  startRewriteEffect,
+  updateRewriteEffect
+} from "./rewrite";
+import { UsageEvent, UsageEventType, UsageStats } from "./stats";
+import { USAGE_VIEW_TYPE, UsageView } from "./statsView";
+import {
+  DEFAULT_SYNTAX_RULES,
+  SYNTAX_CATEGORY_LABELS,
+  SyntaxCategory,
+  SyntaxEligibility,
+  SyntaxRules,
+  checkSyntaxEligibility
+} from "./syntax";
+import {
+  CUSTOM_PRESET,
+  DEFAULT_PRESET,
+  ModelPromptTemplate,
+  NoteInfo,
+  PROMPT_PRESETS,
+  collectPromptVariables,
+  renderTemplate,
+  resolveTemplate
+} from "./templates";
+import {
+  DEFAULT_LANGUAGE_KEY,
+  DEFAULT_TRIGGER_PUNCTUATION,
+  charAfter,
+  charBefore,
+  firstWord,
+  isSpaceChar,
+  isWhitespace,
+  isWordChar,
+  resolveLanguage,
+  triggerPunctuationFor
+} from "./unicode";
+
+interface AutocompleteSettings extends PrivacyRules {
+  enabled: boolean;
+  backend: BackendKind;
+  serverUrl: string;
+  apiKey: string;
   model: string;
-  contextChars: number;
+  contextTokens: number;
+  fimMode: FimMode;
+  suffixChars: number;
   debounceMs: number;
+  adaptiveTiming: boolean;
+  prefetch: boolean;
+  warmUp: boolean;
+  keepAlive: string;
+  triggerPunctuation: Record<string, string>;
   maxTokens: number;
-  disableInCodeBlocks: boolean;
+  paragraphMaxTokens: number;
+  candidateCount: number;
+  maxConcurrentRequests: number;
+  temperature: number;
+  topP: number;
+  topK: number;
+  repeatPenalty: number;
+  profiles: CompletionProfile[];
+  vaultContext: boolean;
+  vaultContextChars: number;
+  syntaxRules: SyntaxRules;
+  codeModels: Record<string, string>;
+  promptPreset: string;
+  promptTemplate: string;
+  modelTemplates: ModelPromptTemplate[];
+  acceptKeys: string[];
+  dismissKeys: string[];
+  filters: FilterSettings;
+  blocklist: string[];
+  localCompletion: LocalCompletionMode;
+  vaultLinks: boolean;
+  underlineAiText: boolean;
+  chatMode: boolean;
+  chatInstruction: string;
   debugLogging: boolean;
 }
 
 const DEFAULT_SETTINGS: AutocompleteSettings = {
-  ollamaUrl: "http://localhost:11434",
+  enabled: true,
+  backend: "ollama",
+  serverUrl: "http://localhost:11434",
+  apiKey: "",
   model: "qwen3:0.6b",
-  contextChars: 400,
+  contextTokens: 200,
+  fimMode: "off",
+  suffixChars: 200,
   debounceMs: 250,
+  adaptiveTiming: true,
+  prefetch: true,
+  warmUp: true,
+  keepAlive: "30m",
+  triggerPunctuation: DEFAULT_TRIGGER_PUNCTUATION,
   maxTokens: 16,
-  disableInCodeBlocks: true,
+  paragraphMaxTokens: 128,
+  candidateCount: 1,
+  maxConcurrentRequests: 2,
+  temperature: 0.2,
+  topP: 0.9,
+  topK: 40,
+  repeatPenalty: 1.05,
+  profiles: [],
+  vaultContext: false,
+  vaultContextChars: 800,
+  syntaxRules: DEFAULT_SYNTAX_RULES,
+  codeModels: {},
+  promptPreset: DEFAULT_PRESET,
+  promptTemplate: PROMPT_PRESETS[DEFAULT_PRESET].template,
+  modelTemplates: [],
+  acceptKeys: ["Tab", "ArrowRight"],
+  dismissKeys: ["Escape"],
+  filters: DEFAULT_FILTERS,
+  blocklist: [],
+  localCompletion: "off",
+  vaultLinks: true,
+  underlineAiText: false,
+  chatMode: false,
+  chatInstruction: DEFAULT_CHAT_INSTRUCTION,
+  excludedFolders: [],
+  excludedTags: [],
+  excludedProperties: ["private"],
+  redactSecrets: true,
+  redactEmails: true,
+  redactPhones: true,
+  redactPatterns: [],
   debugLogging: false
 };
 
-const setSuggestionEffect = StateEffect.define<string | null>();
+interface SuggestionState {
+  candidates: string[];
+  index: number;
+  model: string;
+}
+
+const setSuggestionEffect = StateEffect.define<SuggestionState | null>();
+const cycleSuggestionEffect = StateEffect.define<number>();
+const requestSuggestionEffect = StateEffect.define<CompletionMode>();
+
+type SuggestionOutcome = "accepted" | "partial-accept" | "dismissed";
+
+const suggestionOutcome = Annotation.define<SuggestionOutcome>();
 
 class GhostTextWidget extends WidgetType {
   private readonly text: string;
+  private readonly position: number;
+  private readonly total: number;
 
-  constructor(text: string) {
+  constructor(text: string, position: number, total: number) {
     super();
     this.text = text;
+    this.position = position;
+    this.total = total;
   }
 
   eq(other: GhostTextWidget): boolean {
-    return this.text === other.text;
+    return (
+      this.text === other.text &&
+      this.position === other.position &&
+      this.total === other.total
+    );
   }
 
   toDOM(): HTMLElement {
     const span = document.createElement("span");
     span.className = "ollama-ghost-text";
     span.textContent = this.text;
+    if (this.total > 1) {
+      const counter = document.createElement("span");
+      counter.className = "ollama-ghost-text-counter";
+      counter.textContent = `${this.position}/${this.total}`;
+      span.appendChild(counter);
+    }
     return span;
   }
 
@@ -55,7 +276,31 @@ class GhostTextWidget extends WidgetType {
   }
 }
 
-const suggestionField = StateField.define<string | null>({
+class GhostBlockWidget extends WidgetType {
+  private readonly text: string;
+
+  constructor(text: string) {
+    super();
+    this.text = text;
+  }
+
+  eq(other: GhostBlockWidget): boolean {
+    return this.text === other.text;
+  }
+
+  toDOM(): HTMLElement {
+    const div = document.createElement("div");
+    div.className = "ollama-ghost-text ollama-ghost-block";
+    div.textContent = this.text;
+    return div;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+const suggestionField = StateField.define<SuggestionState | null>({
   create: () => null,
   update(value, tr) {
     for (const effect of tr.effects) {
@@ -63,6 +308,15 @@ const suggestionField = StateField.define<string | null>({
         return effect.value;
       }
     }
+    for (const effect of tr.effects) {
+      if (effect.is(cycleSuggestionEffect) && value) {
+        const count = value.candidates.length;
+        return { ...value, index: (((value.index + effect.value) % count) + count) % count };
+      }
+    }
+    if (tr.docChanged && value) {
+      return typeThroughSuggestion(value, tr);
+    }
     if (tr.docChanged || tr.selection) {
       return null;
     }
@@ -70,127 +324,492 @@ const suggestionField = StateField.define<string | null>({
   }
 });
 
+function typeThroughSuggestion(value: SuggestionState, tr: Transaction): SuggestionState | null {
+  const head = tr.startState.selection.main.head;
+  const inserted: string[] = [];
+  tr.changes.iterChanges((fromA, toA, _fromB, _toB, text) => {
+    inserted.push(fromA === head && toA === head ? text.toString() : "");
+  });
+  const typed = inserted.length === 1 ? inserted[0] : "";
+  if (!typed || tr.newSelection.main.head !== head + typed.length) {
+    return null;
+  }
+  const current = value.candidates[value.index];
+  if (!current || !current.startsWith(typed)) {
+    return null;
+  }
+  const candidates = value.candidates
+    .filter(candidate => candidate.length > typed.length && candidate.startsWith(typed))
+    .map(candidate => candidate.slice(typed.length));
+  if (candidates.length === 0) {
+    return null;
+  }
+  const index = Math.max(0, candidates.indexOf(current.slice(typed.length)));
+  return { ...value, candidates, index };
+}
+
+function currentSuggestion(state: EditorState): string | null {
+  const value = state.field(suggestionField, false);
+  if (!value) {
+    return null;
+  }
+  return value.candidates[value.index] ?? null;
+}
+
 const suggestionDecorations = EditorView.decorations.compute(
   [suggestionField],
   state => {
-    const suggestion = state.field(suggestionField);
-    if (!suggestion) {
+    const value = state.field(suggestionField);
+    const suggestion = currentSuggestion(state);
+    if (!value || !suggestion) {
       return Decoration.none;
     }
     const pos = state.selection.main.head;
-    const deco = Decoration.widget({
-      widget: new GhostTextWidget(suggestion),
+    const newline = suggestion.indexOf("\n");
+    const firstLine = newline === -1 ? suggestion : suggestion.slice(0, newline);
+    const inline = Decoration.widget({
+      widget: new GhostTextWidget(firstLine, value.index + 1, value.candidates.length),
+      side: 1
+    });
+    if (newline === -1) {
+      return Decoration.set([inline.range(pos)]);
+    }
+    const block = Decoration.widget({
+      widget: new GhostBlockWidget(suggestion.slice(newline + 1)),
+      block: true,
       side: 1
     });
-    return Decoration.set([deco.range(pos)]);
+    return Decoration.set([inline.range(pos), block.range(state.doc.lineAt(pos).to)], true);
   }
 );
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
+const NOT_ELIGIBLE: SyntaxEligibility = { allowed: false, model: null };
+
+const CANDIDATE_TEMPERATURE_OFFSETS = [0, 0.3, 0.5, 0.7, 0.8];
+const COMPLETION_CACHE_SIZE = 64;
+const INLINE_TIMEOUT_MS = 1500;
+const PARAGRAPH_TIMEOUT_MS = 20000;
+const PREFETCH_DELAY_MS = 30;
+const WARM_UP_TIMEOUT_MS = 120000;
+const EVALUATION_TIMEOUT_MS = 10000;
+const CURRENT_SETTINGS_NAME = "Current settings";
+const PARAGRAPH_STOPS = ["\n\n", "\n#"];
+const MODEL_LIST_TIMEOUT_MS = 5000;
+const LINK_CANDIDATES = 5;
+const VAULT_LINKS_MODEL_NAME = "vault links";
+const MIN_CONTEXT_TOKENS = 32;
+const MAX_CONTEXT_TOKENS = 8000;
+// Converts the old character-based context setting.
+const CHARS_PER_CONTEXT_TOKEN = 4;
+const AI_TEXT_BODY_CLASS = "smart-compose-underline-ai-text";
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  idle: "idle",
+  requesting: "requesting…",
+  error: "error",
+  disabled: "off"
+};
+
+type CompletionMode = "inline" | "paragraph";
+
+interface CandidateText {
+  text: string;
+  final: boolean;
+  truncated: boolean;
+}
+
+type AcceptMode = "all" | "word" | "phrase" | "line";
+
+function nextSuggestionChunk(suggestion: string, mode: AcceptMode): string {
+  if (mode === "all") {
+    return suggestion;
+  }
+  if (mode === "line") {
+    return suggestion.match(/^[^\n]*\n?/)?.[0] || suggestion;
+  }
+  if (mode === "word") {
+    return firstWord(suggestion, resolveLanguage(null, suggestion));
+  }
+  const phrase = suggestion.match(/^[^\n]*?[.,;:!?…](?=\s|$)/);
+  return phrase ? phrase[0] : nextSuggestionChunk(suggestion, "line");
+}
+
+function trimContinuation(text: string): string {
+  let end = text.length;
+  for (const stop of PARAGRAPH_STOPS) {
+    const index = text.indexOf(stop, 1);
+    if (index !== -1 && index < end) {
+      end = index;
+    }
+  }
+  return text.slice(0, end).trimEnd();
 }
 
-function isWordChar(ch: string): boolean {
-  if (!ch) {
+function acceptSuggestion(view: EditorView, mode: AcceptMode): boolean {
+  const suggestion = currentSuggestion(view.state);
+  if (!suggestion) {
     return false;
   }
-  const code = ch.charCodeAt(0);
-  return (
-    (code >= 48 && code <= 57) ||
-    (code >= 65 && code <= 90) ||
-    (code >= 97 && code <= 122) ||
-    code === 95
-  );
+  const chunk = nextSuggestionChunk(suggestion, mode);
+  const remainder = suggestion.slice(chunk.length);
+  const value = view.state.field(suggestionField)!;
+  let next: SuggestionState | null = null;
+  if (remainder) {
+    const others = value.candidates
+      .filter(candidate => candidate !== suggestion && candidate.startsWith(chunk))
+      .map(candidate => candidate.slice(chunk.length))
+      .filter(candidate => candidate && candidate !== remainder);
+    next = { candidates: [remainder, ...others], index: 0, model: value.model };
+  }
+  const pos = view.state.selection.main.head;
+  const annotations: Annotation<unknown>[] = [suggestionOutcome.of(remainder ? "partial-accept" : "accepted")];
+  // Link and tag completions only repeat names already in the vault.
+  if (value.model !== VAULT_LINKS_MODEL_NAME) {
+    annotations.push(aiInsertion.of(value.model));
+  }
+  view.dispatch({
+    changes: { from: pos, to: pos, insert: chunk },
+    selection: { anchor: pos + chunk.length },
+    effects: setSuggestionEffect.of(next),
+    annotations
+  });
+  return true;
 }
 
-function isWhitespace(ch: string): boolean {
-  return ch === " " || ch === "\t" || ch === "\n" || ch === "\r";
+function cycleSuggestion(view: EditorView, delta: number): boolean {
+  const value = view.state.field(suggestionField);
+  if (!value) {
+    return false;
+  }
+  if (value.candidates.length > 1) {
+    view.dispatch({
+      effects: cycleSuggestionEffect.of(delta)
+    });
+  }
+  return true;
 }
 
-function isPunctuationTrigger(ch: string): boolean {
-  return ch === "." || ch === ",";
+function dismissSuggestion(view: EditorView): boolean {
+  const suggestion = view.state.field(suggestionField);
+  if (!suggestion) {
+    return false;
+  }
+  view.dispatch({
+    effects: setSuggestionEffect.of(null),
+    annotations: suggestionOutcome.of("dismissed")
+  });
+  return true;
 }
 
-function isInFrontmatter(doc: Text, pos: number): boolean {
-  if (doc.lines < 2) {
+function acceptRewrite(view: EditorView): boolean {
+  const rewrite = view.state.field(rewriteField, false);
+  if (!rewrite?.done) {
     return false;
   }
-  const firstLine = doc.line(1).text.trim();
-  if (firstLine !== "---") {
+  view.dispatch({
+    changes: { from: rewrite.from, to: rewrite.to, insert: rewrite.replacement },
+    selection: { anchor: rewrite.from + rewrite.replacement.length },
+    effects: clearRewriteEffect.of(null),
+    annotations: [suggestionOutcome.of("accepted"), aiInsertion.of(rewrite.model)]
+  });
+  return true;
+}
+
+function rejectRewrite(view: EditorView): boolean {
+  if (!view.state.field(rewriteField, false)) {
     return false;
   }
-  const posLine = doc.lineAt(pos).number;
-  for (let lineNo = 2; lineNo <= doc.lines; lineNo++) {
-    const lineText = doc.line(lineNo).text.trim();
-    if (lineText === "---") {
-      return posLine <= lineNo;
+  view.dispatch({
+    effects: clearRewriteEffect.of(null),
+    annotations: suggestionOutcome.of("dismissed")
+  });
+  return true;
+}
+
+// A pending rewrite takes the accept and dismiss keys before any inline suggestion does.
+function editorKeyAction(
+  state: EditorState,
+  event: KeyboardEvent,
+  settings: AutocompleteSettings
+): ((view: EditorView) => boolean) | null {
+  const rewrite = state.field(rewriteField, false);
+  if (rewrite) {
+    if (matchesAnyKey(event, settings.dismissKeys)) {
+      return rejectRewrite;
     }
+    // The accept keys keep their usual meaning while the rewrite is still streaming.
+    return rewrite.done && matchesAnyKey(event, settings.acceptKeys) ? acceptRewrite : null;
   }
-  return true;
+  if (!state.field(suggestionField, false)) {
+    return null;
+  }
+  return suggestionKeyAction(event, settings);
 }
 
-function getFrontmatterContent(doc: Text): string {
-  if (doc.lines < 2) {
-    return "";
+function suggestionKeyAction(
+  event: KeyboardEvent,
+  settings: AutocompleteSettings
+): ((view: EditorView) => boolean) | null {
+  const mod = event.ctrlKey || event.metaKey;
+  if (matchesAnyKey(event, settings.dismissKeys)) {
+    return dismissSuggestion;
   }
-  const firstLine = doc.line(1).text.trim();
-  if (firstLine !== "---") {
-    return "";
+  if (matchesAnyKey(event, settings.acceptKeys)) {
+    return view => acceptSuggestion(view, "all");
   }
-  for (let lineNo = 2; lineNo <= doc.lines; lineNo++) {
-    const lineText = doc.line(lineNo).text.trim();
-    if (lineText === "---") {
-      const start = doc.line(2).from;
-      const end = doc.line(lineNo).from;
-      return doc.sliceString(start, end).trimEnd();
+  if (event.altKey && !mod && !event.shiftKey) {
+    if (event.code === "BracketRight") {
+      return view => cycleSuggestion(view, 1);
+    }
+    if (event.code === "BracketLeft") {
+      return view => cycleSuggestion(view, -1);
     }
   }
-  const start = doc.line(2).from;
-  return doc.sliceString(start, doc.length).trimEnd();
+  if (event.key === "ArrowDown" && event.altKey && !mod && !event.shiftKey) {
+    return view => acceptSuggestion(view, "line");
+  }
+  if (event.key !== "ArrowRight" || event.shiftKey) {
+    return null;
+  }
+  if (mod && !event.altKey) {
+    return view => acceptSuggestion(view, "word");
+  }
+  if (event.altKey && !mod) {
+    return view => acceptSuggestion(view, "phrase");
+  }
+  return null;
+}
+
+function getEditorView(editor: Editor): EditorView | null {
+  return (editor as Editor & { cm?: EditorView }).cm ?? null;
 }
 
-function escapeYamlString(value: string): string {
-  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function cursorLanguage(state: EditorState, note: NoteInfo): string | null {
+  return resolveLanguage(note.language, state.doc.lineAt(state.selection.main.head).text);
 }
 
-function buildPrompt(prefix: string, doc: Text, fileName: string): string {
-  const frontmatterContent = getFrontmatterContent(doc);
-  const safeFileName = fileName.trim() || "Untitled";
-  const frontmatterLines = ["---", `filename: ${escapeYamlString(safeFileName)}`];
-  if (frontmatterContent) {
-    frontmatterLines.push(frontmatterContent);
+function isPunctuationTrigger(
+  ch: string,
+  settings: AutocompleteSettings,
+  language: string | null
+): boolean {
+  return ch.length > 0 && triggerPunctuationFor(settings.triggerPunctuation, language).includes(ch);
+}
+
+function followsWordAndSpace(state: EditorState, pos: number): boolean {
+  const prevChar = charBefore(state.doc, pos);
+  if (!isSpaceChar(prevChar)) {
+    return false;
   }
-  frontmatterLines.push("---");
-  return `${frontmatterLines.join("\n")}\n${prefix}`;
+  const prevPrev = charBefore(state.doc, pos - prevChar.length);
+  return prevPrev.length > 0 && !isWhitespace(prevPrev);
+}
+
+// Right after a word and a space, or after punctuation, a pause to read the suggestion is likely.
+function isPrefetchPoint(
+  state: EditorState,
+  settings: AutocompleteSettings,
+  language: string | null
+): boolean {
+  const pos = state.selection.main.head;
+  return (
+    followsWordAndSpace(state, pos) ||
+    isPunctuationTrigger(charBefore(state.doc, pos), settings, language)
+  );
+}
+
+function schedulerKey(settings: AutocompleteSettings, model: string): string {
+  return [settings.backend, settings.serverUrl, model].join("\u0000");
 }
 
-function isInFencedCodeBlock(doc: Text, pos: number): boolean {
-  const posLine = doc.lineAt(pos).number;
-  let inFence = false;
-  for (let lineNo = 1; lineNo <= posLine; lineNo++) {
-    const lineText = doc.line(lineNo).text.trim();
-    if (lineText.startsWith("```") || lineText.startsWith("~~~")) {
-      inFence = !inFence;
+function checkCursorEligibility(
+  state: EditorState,
+  settings: AutocompleteSettings,
+  language: string | null
+): SyntaxEligibility {
+  const selection = state.selection.main;
+  if (!selection.empty) {
+    return NOT_ELIGIBLE;
+  }
+  const pos = selection.head;
+  if (pos === 0) {
+    return NOT_ELIGIBLE;
+  }
+  const prevChar = charBefore(state.doc, pos);
+  if (isSpaceChar(prevChar)) {
+    if (!followsWordAndSpace(state, pos)) {
+      return NOT_ELIGIBLE;
+    }
+  } else if (!isWordChar(prevChar) && !isPunctuationTrigger(prevChar, settings, language)) {
+    return NOT_ELIGIBLE;
+  }
+  const nextChar = charAfter(state.doc, pos);
+  if (nextChar && isWordChar(nextChar)) {
+    if (settings.fimMode === "off" || isWordChar(prevChar)) {
+      return NOT_ELIGIBLE;
     }
   }
-  return inFence;
+  return checkSyntaxEligibility(state, pos, settings.syntaxRules, settings.codeModels);
 }
 
-function isInInlineCode(doc: Text, pos: number): boolean {
-  const line = doc.lineAt(pos);
-  const offset = pos - line.from;
-  const before = line.text.slice(0, offset);
-  let backticks = 0;
-  for (let i = 0; i < before.length; i++) {
-    if (before[i] === "`") {
-      backticks++;
-    }
+// Everything besides the text around the cursor that shapes a completion.
+function buildCacheScope(
+  settings: AutocompleteSettings,
+  model: string,
+  mode: CompletionMode,
+  path: string
+): string {
+  return [
+    settings.backend,
+    settings.serverUrl,
+    model,
+    mode,
+    path,
+    settings.fimMode,
+    settings.chatMode ? settings.chatInstruction : "raw",
+    getPromptTemplate(settings, model),
+    settings.vaultContext ? settings.vaultContextChars : "no related notes",
+    settings.maxTokens,
+    settings.paragraphMaxTokens,
+    settings.candidateCount,
+    settings.temperature,
+    settings.topP,
+    settings.topK,
+    settings.repeatPenalty,
+    JSON.stringify(settings.filters),
+    settings.blocklist.join("\n"),
+    settings.vaultLinks
+  ].join("\u0000");
+}
+
+function getPromptTemplate(settings: AutocompleteSettings, model: string): string {
+  const override = settings.modelTemplates.find(entry => entry.model.trim() === model);
+  return resolveTemplate(
+    override ?? { preset: settings.promptPreset, template: settings.promptTemplate }
+  );
+}
+
+function buildPrompt(
+  state: EditorState,
+  prefix: string,
+  settings: AutocompleteSettings,
+  model: string,
+  note: NoteInfo,
+  related: RelatedNote[]
+): string {
+  const pos = state.selection.main.head;
+  const suffixChars = clamp(settings.suffixChars, 50, 800);
+  const suffix = state.doc.sliceString(pos, Math.min(state.doc.length, pos + suffixChars));
+  const variables = collectPromptVariables(state.doc, pos, prefix, suffix, note, related);
+  return renderTemplate(getPromptTemplate(settings, model), variables);
+}
+
+function sliceContext(state: EditorState, settings: AutocompleteSettings): string {
+  const budget = clamp(settings.contextTokens, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS);
+  return buildContext(state, state.selection.main.head, budget);
+}
+
+function sliceSuffix(state: EditorState, settings: AutocompleteSettings): string | null {
+  if (settings.fimMode === "off") {
+    return null;
+  }
+  const pos = state.selection.main.head;
+  const suffixChars = clamp(settings.suffixChars, 50, 800);
+  const suffix = state.doc.sliceString(pos, Math.min(state.doc.length, pos + suffixChars));
+  if (suffix.trim().length === 0) {
+    return null;
+  }
+  return suffix;
+}
+
+// Chat models get the suffix after a cursor marker in the user message instead of a FIM template.
+function formatPrompt(settings: AutocompleteSettings, prompt: string, suffix: string | null): FimPrompt {
+  if (settings.chatMode) {
+    return { prompt: buildChatMessage(prompt, suffix), stop: [] };
+  }
+  return suffix === null ? applyFim("off", prompt, "") : applyFim(settings.fimMode, prompt, suffix);
+}
+
+function buildCompletionRequest(
+  settings: AutocompleteSettings,
+  model: string,
+  fim: FimPrompt,
+  mode: CompletionMode,
+  candidateIndex: number
+): CompletionRequest {
+  const paragraph = mode === "paragraph";
+  const maxTokens = paragraph
+    ? clamp(settings.paragraphMaxTokens, 32, 512)
+    : clamp(settings.maxTokens, 8, 32);
+  // A chat reply may open with a preamble line, so stops would cut it off before the text.
+  const chat = settings.chatMode;
+  return {
+    model,
+    prompt: fim.prompt,
+    suffix: fim.suffix,
+    maxTokens: chat ? maxTokens + CHAT_EXTRA_TOKENS : maxTokens,
+    stop: chat ? [] : [...(paragraph ? PARAGRAPH_STOPS : ["\n"]), ...fim.stop],
+    temperature: clamp(settings.temperature + CANDIDATE_TEMPERATURE_OFFSETS[candidateIndex], 0, 2),
+    topP: settings.topP,
+    topK: settings.topK,
+    repeatPenalty: settings.repeatPenalty,
+    keepAlive: settings.keepAlive || undefined,
+    ...(chat ? { system: settings.chatInstruction.trim() || DEFAULT_CHAT_INSTRUCTION } : {})
+  };
+}
+
+function processSuggestion(
+  candidate: CandidateText,
+  state: EditorState,
+  prefix: string,
+  suffix: string | null,
+  mode: CompletionMode,
+  settings: AutocompleteSettings,
+  language: string | null,
+  linkValidator: (text: string) => string
+): string | null {
+  const raw = settings.chatMode
+    ? extractContinuation(candidate.text, mode === "inline", candidate.final)
+    : candidate.text;
+  const text = filterSuggestion(
+    raw,
+    {
+      prefix,
+      language,
+      final: candidate.final,
+      truncated: candidate.truncated,
+      blocklist: settings.blocklist
+    },
+    settings.filters
+  );
+  if (!text) {
+    return null;
+  }
+  const pos = state.selection.main.head;
+  const prevChar = pos > 0 ? state.doc.sliceString(pos - 1, pos) : "";
+  let suggestion = text;
+  if (prevChar === " " && suggestion.startsWith(" ")) {
+    suggestion = suggestion.slice(1);
   }
-  return backticks % 2 === 1;
+  if (mode === "paragraph") {
+    suggestion = trimContinuation(suggestion);
+  }
+  if (suffix !== null) {
+    suggestion = trimSuffixOverlap(suggestion, suffix);
+  }
+  if (settings.vaultLinks) {
+    suggestion = linkValidator(suggestion);
+  }
+  return suggestion || null;
 }
 
-function buildOllamaUrl(baseUrl: string): string {
-  return `${baseUrl.replace(/\/+$/, "")}/api/generate`;
+// The note an editor shows, from its own state rather than the active leaf.
+function editorFile(state: EditorState): TFile | null {
+  return state.field(editorInfoField, false)?.file ?? null;
 }
 
 function debugLog(
@@ -209,85 +828,92 @@ function debugLog(
 }
 
 function createAutocompleteExtension(
-  settingsGetter: () => AutocompleteSettings,
-  fileNameGetter: () => string
+  settingsFor: (state: EditorState) => AutocompleteSettings,
+  noteInfoFor: (state: EditorState) => NoteInfo,
+  relatedNotesGetter: (state: EditorState, prefix: string) => Promise<RelatedNote[]>,
+  recordUsage: (type: UsageEventType, model: string, ms?: number) => void,
+  health: ConnectionHealth,
+  localCompleter: (prefix: string) => string,
+  linkCompleter: (state: EditorState, context: LinkContext) => string[],
+  linkValidator: (state: EditorState, text: string) => string,
+  scheduler: AdaptiveScheduler,
+  warmUp: () => void,
+  prepareRequest: (request: CompletionRequest, settings: AutocompleteSettings) => CompletionRequest,
+  service: CompletionService
 ) {
   const viewPlugin = ViewPlugin.fromClass(
     class {
       private view: EditorView;
       private requestAbort: AbortController | null;
+      private rewriteAbort: AbortController | null;
       private requestId: number;
       private debounceHandle: number | null;
       private pendingClearHandle: number | null;
-      private readonly keydownCapture: (event: KeyboardEvent) => void;
-      private readonly windowKeydownCapture: (event: KeyboardEvent) => void;
+      private shownRequestId: number;
+      private shownModel: string | null;
+      private readonly unsubscribe: () => void;
+      // The note shown in this editor, which isn't always the active one with split panes.
+      private readonly settingsGetter: () => AutocompleteSettings;
 
       constructor(view: EditorView) {
         this.view = view;
+        this.settingsGetter = () => settingsFor(this.view.state);
         this.requestAbort = null;
+        this.rewriteAbort = null;
         this.requestId = 0;
         this.debounceHandle = null;
         this.pendingClearHandle = null;
-        this.keydownCapture = (event: KeyboardEvent) => {
-          if (event.key !== "Tab" && event.key !== "ArrowRight" && event.key !== "Escape") {
-            return;
-          }
-          const suggestion = this.view.state.field(suggestionField);
-          if (!suggestion) {
-            return;
-          }
-          event.preventDefault();
-          event.stopImmediatePropagation();
-          if (event.key === "Escape") {
-            this.clearSuggestion();
-            return;
-          }
-          const pos = this.view.state.selection.main.head;
-          this.view.dispatch({
-            changes: { from: pos, to: pos, insert: suggestion },
-            selection: { anchor: pos + suggestion.length },
-            effects: setSuggestionEffect.of(null)
-          });
-        };
-        this.windowKeydownCapture = (event: KeyboardEvent) => {
-          if (event.key !== "Tab" && event.key !== "ArrowRight" && event.key !== "Escape") {
-            return;
-          }
-          const target = event.target;
-          if (!(target instanceof Node)) {
-            return;
-          }
-          const path = typeof event.composedPath === "function" ? event.composedPath() : [];
-          const inEditor =
-            this.view.dom.contains(target) ||
-            this.view.contentDOM.contains(target) ||
-            path.includes(this.view.dom) ||
-            path.includes(this.view.contentDOM);
-          if (!inEditor) {
-            return;
-          }
-          const suggestion = this.view.state.field(suggestionField);
-          if (!suggestion) {
-            return;
-          }
-          event.preventDefault();
-          event.stopImmediatePropagation();
-          if (event.key === "Escape") {
-            this.clearSuggestion();
-            return;
-          }
-          const pos = this.view.state.selection.main.head;
-          this.view.dispatch({
-            changes: { from: pos, to: pos, insert: suggestion },
-            selection: { anchor: pos + suggestion.length },
-            effects: setSuggestionEffect.of(null)
-          });
-        };
-        this.view.dom.addEventListener("keydown", this.keydownCapture, true);
-        window.addEventListener("keydown", this.windowKeydownCapture, true);
+        this.shownRequestId = 0;
+        this.shownModel = null;
+        this.unsubscribe = service.subscribe({
+          view,
+          handleKey: event => this.handleSuggestionKey(event)
+        });
       }
 
       update(update: ViewUpdate): void {
+        const hasEffect = (predicate: (effect: StateEffect<unknown>) => boolean): boolean =>
+          update.transactions.some(tr => tr.effects.some(predicate));
+
+        for (const tr of update.transactions) {
+          for (const effect of tr.effects) {
+            if (effect.is(requestSuggestionEffect)) {
+              const mode = effect.value;
+              this.cancelAndClear(true);
+              window.setTimeout(() => void this.requestOnDemand(mode), 0);
+              return;
+            }
+            if (effect.is(startRewriteEffect)) {
+              const request = effect.value;
+              this.cancelAndClear(true);
+              window.setTimeout(
+                () => void this.requestRewrite(request.from, request.to, request.instruction),
+                0
+              );
+              return;
+            }
+          }
+        }
+
+        if (update.startState.field(rewriteField) && !update.state.field(rewriteField)) {
+          this.cancelRewrite();
+        }
+
+        if (hasEffect(effect => effect.is(setSuggestionEffect) && !effect.value)) {
+          this.cancelRequest();
+        }
+
+        for (const tr of update.transactions) {
+          const outcome = tr.annotation(suggestionOutcome);
+          if (outcome) {
+            recordUsage(outcome, this.shownModel ?? this.settingsGetter().model);
+          }
+        }
+
+        if (update.focusChanged && this.view.hasFocus) {
+          warmUp();
+        }
+
         if (update.focusChanged && !this.view.hasFocus) {
           this.cancelAndClear(true);
           return;
@@ -299,21 +925,49 @@ function createAutocompleteExtension(
         }
 
         if (update.docChanged) {
+          if (update.state.field(suggestionField)) {
+            this.cancelRequest();
+            this.clearDebounce();
+            return;
+          }
           this.cancelAndClear(true);
-          this.schedule();
+          // An input method commits a whole word or phrase at once, which is a natural pause.
+          const committed =
+            !this.view.composing &&
+            update.transactions.some(tr => tr.isUserEvent("input.type.compose"));
+          this.schedule(committed);
+        }
+      }
+
+      private handleSuggestionKey(event: KeyboardEvent): void {
+        const action = event.isComposing
+          ? null
+          : editorKeyAction(this.view.state, event, this.settingsGetter());
+        if (!action) {
+          return;
         }
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        action(this.view);
       }
 
       destroy(): void {
         this.cancelAndClear(false);
-        this.view.dom.removeEventListener("keydown", this.keydownCapture, true);
-        window.removeEventListener("keydown", this.windowKeydownCapture, true);
+        this.cancelRewrite();
+        this.unsubscribe();
       }
 
-      private schedule(): void {
+      private schedule(committed: boolean): void {
         this.clearDebounce();
-        const settings = settingsGetter();
-        const delay = clamp(settings.debounceMs, 100, 500);
+        const settings = this.settingsGetter();
+        const base = clamp(settings.debounceMs, 100, 500);
+        let delay = settings.adaptiveTiming
+          ? scheduler.debounceMs(schedulerKey(settings, settings.model), base)
+          : base;
+        const language = cursorLanguage(this.view.state, noteInfoFor(this.view.state));
+        if (settings.prefetch && (committed || isPrefetchPoint(this.view.state, settings, language))) {
+          delay = Math.min(delay, PREFETCH_DELAY_MS);
+        }
         this.debounceHandle = window.setTimeout(() => {
           this.debounceHandle = null;
           void this.maybeRequest();
@@ -321,70 +975,158 @@ function createAutocompleteExtension(
       }
 
       private async maybeRequest(): Promise<void> {
-        if (!this.view.hasFocus) {
+        if (!this.view.hasFocus || this.view.composing || !this.settingsGetter().enabled) {
           return;
         }
-        if (this.requestAbort) {
+        if (this.requestAbort || this.view.state.field(rewriteField)) {
           return;
         }
-        if (!this.isCursorEligible()) {
+        if (this.settingsGetter().vaultLinks && this.showVaultLinkSuggestion()) {
+          return;
+        }
+        const eligibility = this.checkCursorEligibility();
+        if (!eligibility.allowed) {
           return;
         }
         const prefix = this.getPrefix();
         if (!prefix) {
           return;
         }
-        await this.sendRequest(prefix);
+        if (!health.canRequest()) {
+          debugLog(this.settingsGetter, "server backing off", { retryInMs: health.getRetryInMs() });
+          if (this.settingsGetter().localCompletion !== "off") {
+            this.showLocalSuggestion(prefix);
+          }
+          return;
+        }
+        await this.sendRequest(prefix, this.getSuffix(), "inline", eligibility.model);
       }
 
-      private isCursorEligible(): boolean {
-        const state = this.view.state;
-        const selection = state.selection.main;
-        if (!selection.empty) {
-          return false;
+      private async requestOnDemand(mode: CompletionMode): Promise<void> {
+        if (!this.view.state.selection.main.empty || !this.settingsGetter().enabled) {
+          return;
         }
-        const pos = selection.head;
-        if (pos === 0) {
-          return false;
+        const prefix = this.getPrefix();
+        if (!prefix) {
+          return;
         }
-        const prevChar = state.doc.sliceString(pos - 1, pos);
-        if (prevChar === " ") {
-          if (pos < 2) {
-            return false;
-          }
-          const prevPrev = state.doc.sliceString(pos - 2, pos - 1);
-          if (isWhitespace(prevPrev)) {
-            return false;
-          }
-        } else if (!isWordChar(prevChar) && !isPunctuationTrigger(prevChar)) {
-          return false;
+        // Asking explicitly skips the word boundary rules, but not the syntax rules or the backoff.
+        const settings = this.settingsGetter();
+        const eligibility = checkSyntaxEligibility(
+          this.view.state,
+          this.view.state.selection.main.head,
+          settings.syntaxRules,
+          settings.codeModels
+        );
+        if (!eligibility.allowed) {
+          new Notice("Suggestions are turned off here. Change this under Suggest in.");
+          return;
         }
-        const nextChar = state.doc.sliceString(pos, pos + 1);
-        if (nextChar && isWordChar(nextChar)) {
-          return false;
+        if (!health.canRequest()) {
+          const seconds = Math.ceil(health.getRetryInMs() / 1000);
+          new Notice(`The model server is not responding. Retrying in ${seconds} s.`);
+          return;
         }
-        if (isInFrontmatter(state.doc, pos)) {
-          return false;
+        await this.sendRequest(prefix, this.getSuffix(), mode, eligibility.model);
+      }
+
+      private async requestRewrite(from: number, to: number, instruction: string): Promise<void> {
+        this.cancelRewrite();
+        const settings = this.settingsGetter();
+        // Off for this note, which includes notes excluded for privacy.
+        if (!settings.enabled) {
+          this.view.dispatch({ effects: clearRewriteEffect.of(null) });
+          return;
         }
-        const settings = settingsGetter();
-        if (settings.disableInCodeBlocks) {
-          if (isInFencedCodeBlock(state.doc, pos)) {
-            return false;
+        const controller = new AbortController();
+        this.rewriteAbort = controller;
+        const backend = getBackend(settings.backend);
+        const model = settings.model;
+        const doc = this.view.state.doc;
+        const original = doc.sliceString(from, to);
+        const budget = clamp(settings.contextTokens, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS);
+        const prompt = buildRewritePrompt(
+          noteInfoFor(this.view.state).fileName,
+          buildContext(this.view.state, from, budget),
+          original,
+          doc.sliceString(to, Math.min(doc.length, to + clamp(settings.suffixChars, 50, 800))),
+          instruction
+        );
+        const request = prepareRequest(
+          {
+            model,
+            prompt,
+            maxTokens: clamp(Math.ceil(original.length / 2) + 32, 32, 1024),
+            stop: REWRITE_STOPS,
+            temperature: settings.temperature,
+            topP: settings.topP,
+            topK: settings.topK,
+            repeatPenalty: settings.repeatPenalty,
+            keepAlive: settings.keepAlive || undefined,
+            ...(settings.chatMode ? { system: CHAT_REWRITE_INSTRUCTION } : {})
+          },
+          settings
+        );
+        const isCurrent = () =>
+          this.rewriteAbort === controller && this.view.state.field(rewriteField) !== null;
+        const startedAt = Date.now();
+        recordUsage("request", model);
+        health.requestStarted();
+        scheduler.markActive(schedulerKey(settings, model));
+
+        try {
+          const result = await service.stream(backend, request, {
+            baseUrl: settings.serverUrl,
+            apiKey: settings.apiKey,
+            timeoutMs: PARAGRAPH_TIMEOUT_MS,
+            signal: controller.signal,
+            isStale: () => !isCurrent(),
+            onText: text => {
+              const replacement = cleanRewrite(text, original);
+              this.view.dispatch({ effects: updateRewriteEffect.of({ replacement, done: false, model }) });
+            }
+          });
+          health.requestSucceeded(Date.now() - startedAt);
+          if (!isCurrent()) {
+            return;
+          }
+          recordUsage("complete", model, Date.now() - startedAt);
+          const replacement = cleanRewrite(result.text, original);
+          if (!replacement) {
+            new Notice("The model returned an empty rewrite.");
+            this.view.dispatch({ effects: clearRewriteEffect.of(null) });
+            return;
           }
-          if (isInInlineCode(state.doc, pos)) {
-            return false;
+          this.shownModel = model;
+          recordUsage("shown", model);
+          this.view.dispatch({ effects: updateRewriteEffect.of({ replacement, done: true, model }) });
+        } catch (error) {
+          if (!(error instanceof CompletionError)) {
+            return;
+          }
+          health.requestFailed(error);
+          recordUsage(error.kind === "aborted" ? "aborted" : "failed", model);
+          if (error.kind !== "aborted" && isCurrent()) {
+            new Notice(`Rewrite failed: ${error.message}`);
+            this.view.dispatch({ effects: clearRewriteEffect.of(null) });
+          }
+        } finally {
+          if (this.rewriteAbort === controller) {
+            this.rewriteAbort = null;
           }
         }
-        return true;
+      }
+
+      private checkCursorEligibility(): SyntaxEligibility {
+        return checkCursorEligibility(
+          this.view.state,
+          this.settingsGetter(),
+          cursorLanguage(this.view.state, noteInfoFor(this.view.state))
+        );
       }
 
       private getPrefix(): string | null {
-        const state = this.view.state;
-        const pos = state.selection.main.head;
-        const settings = settingsGetter();
-        const contextChars = clamp(settings.contextChars, 100, 800);
-        const start = Math.max(0, pos - contextChars);
-        const prefix = state.doc.sliceString(start, pos);
+        const prefix = sliceContext(this.view.state, this.settingsGetter());
         if (prefix.length < 10) {
           return null;
         }
@@ -394,133 +1136,300 @@ function createAutocompleteExtension(
         return prefix;
       }
 
-      private async sendRequest(prefix: string): Promise<void> {
-        const settings = settingsGetter();
-        const url = buildOllamaUrl(settings.ollamaUrl);
+      private getSuffix(): string | null {
+        return sliceSuffix(this.view.state, this.settingsGetter());
+      }
+
+      private async sendRequest(
+        prefix: string,
+        suffix: string | null,
+        mode: CompletionMode,
+        modelOverride: string | null
+      ): Promise<void> {
+        const settings = this.settingsGetter();
+        const model = modelOverride ?? settings.model;
         const requestId = ++this.requestId;
         const controller = new AbortController();
         this.requestAbort = controller;
-        const timeoutId = window.setTimeout(() => controller.abort(), 1500);
-        const prompt = buildPrompt(prefix, this.view.state.doc, fileNameGetter());
-
-        const body = {
-          model: settings.model,
-          prompt,
-          raw: true,
-          stream: true,
-          options: {
-            temperature: 0.2,
-            top_p: 0.9,
-            top_k: 40,
-            repeat_penalty: 1.05,
-            num_predict: clamp(settings.maxTokens, 8, 32),
-            stop: ["\n"]
-          }
-        };
+        const local = mode === "inline" ? settings.localCompletion : "off";
+        if (local === "instant") {
+          this.showLocalSuggestion(prefix);
+        }
 
         try {
-          const response = await fetch(url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json"
-            },
-            body: JSON.stringify(body),
-            signal: controller.signal
-          });
-
+          const related = settings.vaultContext ? await this.getRelatedNotes(prefix) : [];
           if (requestId !== this.requestId) {
-            debugLog(settingsGetter, "request stale - discard response");
             return;
           }
-
-          if (!response.ok) {
-            debugLog(settingsGetter, "request failed", { status: response.status });
-            return;
-          }
-
-          if (!response.body) {
-            debugLog(settingsGetter, "response body empty");
+          const prompt = buildPrompt(
+            this.view.state,
+            prefix,
+            settings,
+            model,
+            noteInfoFor(this.view.state),
+            related
+          );
+          const cacheKey: CacheKey = {
+            scope: buildCacheScope(settings, model, mode, noteInfoFor(this.view.state).path),
+            prefix,
+            suffix
+          };
+          const cached = service.cache.get(cacheKey);
+          if (cached) {
+            debugLog(this.settingsGetter, "cache hit", { candidates: cached.length });
+            this.shownModel = model;
+            recordUsage("shown", model);
+            this.showCandidates(cached);
             return;
           }
-
-          const reader = response.body.getReader();
-          const decoder = new TextDecoder();
-          let accumulatedResponse = "";
-          let buffer = "";
-
-          while (true) {
-            const { done, value } = await reader.read();
-            
-            if (requestId !== this.requestId) {
-              await reader.cancel();
-              break;
-            }
-            
-            if (done) {
-              break;
-            }
-
-            const chunk = decoder.decode(value, { stream: true });
-            buffer += chunk;
-            const lines = buffer.split("\n");
-            buffer = lines.pop() ?? "";
-
-            for (const line of lines) {
-              if (!line.trim()) continue;
-              try {
-                const data = JSON.parse(line);
-                
-                if (data.response) {
-                  accumulatedResponse += data.response;
-                  this.showSuggestion(accumulatedResponse);
-                }
-                
-                if (data.done) {
-                  if (typeof data.total_duration === "number") {
-                    const totalDurationMs = data.total_duration / 1_000_000;
-                    console.info("[Smart Compose]", "generation time", {
-                      totalDurationNs: data.total_duration,
-                      totalDurationMs
-                    });
-                  }
-                  debugLog(settingsGetter, "suggestion received", {
-                    chars: accumulatedResponse.length
-                  });
-                }
-              } catch (e) {
-                // Ignore parse errors for partial lines
-              }
-            }
-          }
-        } catch (error) {
-          if (settings.debugLogging && error instanceof Error) {
-            if (error.name !== "AbortError") {
-              console.debug("[Smart Compose]", "request error", error.message);
+          const candidates = await this.streamCandidates(
+            requestId,
+            controller,
+            model,
+            prompt,
+            prefix,
+            suffix,
+            mode
+          );
+          if (requestId === this.requestId) {
+            service.cache.set(cacheKey, candidates);
+            if (candidates.length === 0 && local === "fallback") {
+              this.showLocalSuggestion(prefix);
             }
           }
         } finally {
-          window.clearTimeout(timeoutId);
           if (this.requestAbort === controller) {
             this.requestAbort = null;
           }
         }
       }
 
-      private showSuggestion(text: string): void {
+      private async getRelatedNotes(prefix: string): Promise<RelatedNote[]> {
+        try {
+          return await relatedNotesGetter(this.view.state, prefix);
+        } catch (error) {
+          debugLog(this.settingsGetter, "vault context failed", {
+            message: error instanceof Error ? error.message : String(error)
+          });
+          return [];
+        }
+      }
+
+      private async streamCandidates(
+        requestId: number,
+        controller: AbortController,
+        model: string,
+        prompt: string,
+        prefix: string,
+        suffix: string | null,
+        mode: CompletionMode
+      ): Promise<string[]> {
+        const settings = this.settingsGetter();
+        const backend = getBackend(settings.backend);
+        const fim = formatPrompt(settings, prompt, suffix);
+
+        const paragraph = mode === "paragraph";
+        const candidateCount = paragraph ? 1 : clamp(settings.candidateCount, 1, 5);
+        const texts: CandidateText[] = [];
+        for (let index = 0; index < candidateCount; index++) {
+          texts.push({ text: "", final: false, truncated: false });
+        }
+        const key = schedulerKey(settings, model);
+        const timeoutMs = paragraph
+          ? PARAGRAPH_TIMEOUT_MS
+          : settings.adaptiveTiming
+            ? scheduler.timeoutMs(key, INLINE_TIMEOUT_MS)
+            : INLINE_TIMEOUT_MS;
+        const startedAt = Date.now();
+        let firstTokenRecorded = false;
+        let failureRecorded = false;
+        let lastError: CompletionError | null = null;
+        recordUsage("request", model);
+        health.requestStarted();
+        scheduler.markActive(key);
+
+        const runCandidate = async (index: number): Promise<void> => {
+          const request = prepareRequest(
+            buildCompletionRequest(settings, model, fim, mode, index),
+            settings
+          );
+
+          try {
+            const result = await service.stream(backend, request, {
+              baseUrl: settings.serverUrl,
+              apiKey: settings.apiKey,
+              timeoutMs,
+              signal: controller.signal,
+              isStale: () => requestId !== this.requestId,
+              onText: text => {
+                texts[index].text = text;
+                if (!firstTokenRecorded) {
+                  firstTokenRecorded = true;
+                  recordUsage("first-token", model, Date.now() - startedAt);
+                }
+                const candidates = this.collectCandidates(texts, prefix, suffix, mode);
+                if (candidates.length > 0 && this.shownRequestId !== requestId) {
+                  this.shownRequestId = requestId;
+                  this.shownModel = model;
+                  recordUsage("shown", model);
+                }
+                this.showCandidates(candidates);
+              }
+            });
+
+            if (requestId !== this.requestId) {
+              debugLog(this.settingsGetter, "request stale - discard response");
+              return;
+            }
+            texts[index] = { text: result.text, final: true, truncated: result.truncated };
+
+            if (result.durationMs !== null) {
+              debugLog(this.settingsGetter, "generation time", {
+                backend: backend.kind,
+                candidate: index,
+                totalDurationMs: result.durationMs
+              });
+            }
+            debugLog(this.settingsGetter, "suggestion received", {
+              candidate: index,
+              chars: result.text.length
+            });
+          } catch (error) {
+            if (!(error instanceof CompletionError)) {
+              return;
+            }
+            lastError = error;
+            texts[index].truncated = true;
+            if (!failureRecorded) {
+              failureRecorded = true;
+              recordUsage(error.kind === "aborted" ? "aborted" : "failed", model);
+            }
+            if (error.kind !== "aborted") {
+              debugLog(this.settingsGetter, "request error", {
+                backend: backend.kind,
+                candidate: index,
+                kind: error.kind,
+                status: error.status,
+                message: error.message
+              });
+            }
+          }
+        };
+
+        await Promise.all(texts.map((_, index) => runCandidate(index)));
+        const failure = lastError as CompletionError | null;
+        if (failure && (failure.kind === "aborted" || texts.every(candidate => !candidate.text))) {
+          health.requestFailed(failure);
+          if (!paragraph && failure.kind === "timeout") {
+            scheduler.recordTimeout(key, timeoutMs);
+          }
+        } else {
+          health.requestSucceeded(Date.now() - startedAt);
+          if (!paragraph) {
+            scheduler.recordLatency(key, Date.now() - startedAt);
+          }
+        }
+        if (requestId === this.requestId && texts.some(candidate => candidate.text.length > 0)) {
+          recordUsage("complete", model, Date.now() - startedAt);
+        }
+        for (const candidate of texts) {
+          candidate.final = true;
+        }
+        return this.collectCandidates(texts, prefix, suffix, mode);
+      }
+
+      private processSuggestion(
+        candidate: CandidateText,
+        prefix: string,
+        suffix: string | null,
+        mode: CompletionMode
+      ): string | null {
+        return processSuggestion(
+          candidate,
+          this.view.state,
+          prefix,
+          suffix,
+          mode,
+          this.settingsGetter(),
+          cursorLanguage(this.view.state, noteInfoFor(this.view.state)),
+          text => linkValidator(this.view.state, text)
+        );
+      }
+
+      private collectCandidates(
+        texts: CandidateText[],
+        prefix: string,
+        suffix: string | null,
+        mode: CompletionMode
+      ): string[] {
+        const candidates: string[] = [];
+        for (const text of texts) {
+          const suggestion = this.processSuggestion(text, prefix, suffix, mode);
+          if (suggestion && !candidates.includes(suggestion)) {
+            candidates.push(suggestion);
+          }
+        }
+        return candidates;
+      }
+
+      // Links and tags are completed from the vault only, so the model can't invent targets.
+      private showVaultLinkSuggestion(): boolean {
+        const state = this.view.state;
+        const selection = state.selection.main;
+        if (!selection.empty) {
+          return false;
+        }
+        const context = detectLinkContext(state.doc, selection.head);
+        if (!context) {
+          return false;
+        }
+        const settings = this.settingsGetter();
+        const { allowed } = checkSyntaxEligibility(
+          state,
+          selection.head,
+          settings.syntaxRules,
+          settings.codeModels
+        );
+        if (!allowed) {
+          return true;
+        }
+        const candidates = linkCompleter(this.view.state, context);
+        if (candidates.length > 0) {
+          this.shownModel = VAULT_LINKS_MODEL_NAME;
+          recordUsage("shown", VAULT_LINKS_MODEL_NAME);
+          this.showCandidates(candidates);
+        }
+        return true;
+      }
+
+      private showLocalSuggestion(prefix: string): void {
+        const text = localCompleter(prefix);
         if (!text) {
           return;
         }
-        const pos = this.view.state.selection.main.head;
-        const prevChar = pos > 0 ? this.view.state.doc.sliceString(pos - 1, pos) : "";
-        let suggestion = text;
-        if (prevChar === " " && suggestion.startsWith(" ")) {
-          suggestion = suggestion.slice(1);
-        }
-        if (!suggestion) {
+        this.shownModel = LOCAL_MODEL_NAME;
+        recordUsage("shown", LOCAL_MODEL_NAME);
+        this.showCandidates([text]);
+      }
+
+      private showCandidates(candidates: string[]): void {
+        if (candidates.length === 0) {
           return;
         }
+        const previous = this.view.state.field(suggestionField);
+        const current = currentSuggestion(this.view.state);
+        let index = 0;
+        if (previous && current !== null) {
+          index = candidates[previous.index]?.startsWith(current)
+            ? previous.index
+            : Math.max(0, candidates.findIndex(candidate => candidate.startsWith(current)));
+        }
         this.view.dispatch({
-          effects: setSuggestionEffect.of(suggestion)
+          effects: setSuggestionEffect.of({
+            candidates,
+            index,
+            model: this.shownModel ?? this.settingsGetter().model
+          })
         });
       }
 
@@ -541,6 +1450,13 @@ function createAutocompleteExtension(
         this.requestId = 0;
       }
 
+      private cancelRewrite(): void {
+        if (this.rewriteAbort) {
+          this.rewriteAbort.abort();
+          this.rewriteAbort = null;
+        }
+      }
+
       private clearDebounce(): void {
         if (this.debounceHandle !== null) {
           window.clearTimeout(this.debounceHandle);
@@ -570,166 +1486,1035 @@ function createAutocompleteExtension(
     }
   );
 
-  const acceptSuggestion = (view: EditorView): boolean => {
-    const suggestion = view.state.field(suggestionField);
-    if (!suggestion) {
-      return false;
-    }
-    const pos = view.state.selection.main.head;
-    view.dispatch({
-      changes: { from: pos, to: pos, insert: suggestion },
-      selection: { anchor: pos + suggestion.length },
-      effects: setSuggestionEffect.of(null)
-    });
-    return true;
-  };
-
-  const clearSuggestion = (view: EditorView): boolean => {
-    const suggestion = view.state.field(suggestionField);
-    if (!suggestion) {
+  const runKeyAction = (view: EditorView, event: KeyboardEvent): boolean => {
+    const action = event.isComposing ? null : editorKeyAction(view.state, event, settingsFor(view.state));
+    if (!action) {
       return false;
     }
-    view.dispatch({
-      effects: setSuggestionEffect.of(null)
-    });
-    return true;
+    event.preventDefault();
+    return action(view);
   };
 
   const domKeyHandler = EditorView.domEventHandlers({
-    keydown: (event, view) => {
-      if (event.key === "Tab" || event.key === "ArrowRight") {
-        const suggestion = view.state.field(suggestionField);
-        if (!suggestion) {
-          return false;
-        }
-        event.preventDefault();
-        acceptSuggestion(view);
-        return true;
-      }
-      if (event.key === "Escape") {
-        const suggestion = view.state.field(suggestionField);
-        if (!suggestion) {
-          return false;
-        }
-        event.preventDefault();
-        clearSuggestion(view);
-        return true;
-      }
-      return false;
-    }
+    keydown: (event, view) => runKeyAction(view, event)
   });
 
   return [
     suggestionField,
     suggestionDecorations,
+    rewriteField,
+    rewriteDecorations,
+    structureField,
     viewPlugin,
     domKeyHandler,
-    Prec.highest(
-      keymap.of([
-        {
-          key: "Tab",
-          run: acceptSuggestion
-        },
-        {
-          key: "ArrowRight",
-          run: acceptSuggestion
-        },
-        {
-          key: "Escape",
-          run: clearSuggestion
-        }
-      ])
-    )
+    Prec.highest(keymap.of([{ any: runKeyAction }]))
   ];
 }
 
 export default class InlineAutocompletePlugin extends Plugin {
   settings: AutocompleteSettings;
+  private vaultContext: VaultContextProvider;
+  private usage: UsageStats;
+  private provenance: ProvenanceStore;
+  private health: ConnectionHealth;
+  private scheduler: AdaptiveScheduler;
+  private service: CompletionService;
+  private ngram: VaultNgramModel;
+  private linkIndex: VaultLinkIndex;
+  private statusBarEl: HTMLElement;
+  private readonly effectiveSettings = new Map<string | null, AutocompleteSettings>();
+  private evaluation: { cancelled: boolean } | null = null;
+  private lastPrompt: SentPrompt | null = null;
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
+    this.usage = new UsageStats(await this.loadUsageEvents(), events =>
+      this.saveUsageEvents(events)
+    );
+    this.registerView(USAGE_VIEW_TYPE, leaf => new UsageView(leaf, this.usage));
+
+    this.provenance = new ProvenanceStore(await this.loadProvenance(), data =>
+      this.saveProvenance(data)
+    );
+    this.registerEvent(this.app.vault.on("delete", file => this.provenance.remove(file.path)));
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => this.provenance.rename(oldPath, file.path))
+    );
+    this.registerEditorExtension(createProvenanceExtension(this.provenance));
+    this.updateAiTextUnderline();
+
+    this.health = new ConnectionHealth();
+    this.scheduler = new AdaptiveScheduler();
+    this.service = new CompletionService(
+      COMPLETION_CACHE_SIZE,
+      () => this.settings.maxConcurrentRequests
+    );
+    this.register(() => this.service.destroy());
+    this.app.workspace.onLayoutReady(() => this.warmUp());
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.addClass("smart-compose-status");
+    this.register(this.health.onChange(() => this.updateStatusBar()));
+    this.registerEvent(this.app.workspace.on("active-leaf-change", () => this.updateStatusBar()));
+    this.app.workspace.onLayoutReady(() => this.updateStatusBar());
+
+    this.vaultContext = new VaultContextProvider(this.app, file =>
+      isExcludedNote(this.app, file, this.settings)
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", file => {
+        this.vaultContext.invalidate(file.path);
+        this.vaultContext.updateNote(file);
+        if (this.effectiveSettings.delete(file.path)) {
+          this.updateStatusBar();
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("resolve", file => this.vaultContext.updateNote(file))
+    );
+    this.registerEvent(this.app.vault.on("delete", file => this.vaultContext.removeNote(file.path)));
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.vaultContext.removeNote(oldPath);
+        if (file instanceof TFile && file.extension === "md") {
+          this.vaultContext.updateNote(file);
+        }
+      })
+    );
+
+    this.linkIndex = new VaultLinkIndex(this.app);
+    this.registerEvent(this.app.metadataCache.on("resolved", () => this.linkIndex.invalidate()));
+    this.registerEvent(this.app.vault.on("rename", () => this.linkIndex.invalidate()));
+    this.registerEvent(this.app.vault.on("delete", () => this.linkIndex.invalidate()));
+
+    this.ngram = new VaultNgramModel(this.app, file => isExcludedNote(this.app, file, this.settings));
+    this.registerEvent(
+      this.app.vault.on("modify", file => {
+        if (this.settings.localCompletion !== "off" && file instanceof TFile && file.extension === "md") {
+          this.ngram.scheduleUpdate(file);
+        }
+      })
+    );
+    this.registerEvent(this.app.vault.on("delete", file => this.ngram.remove(file.path)));
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => this.ngram.rename(oldPath, file.path))
+    );
+    this.app.workspace.onLayoutReady(() => this.updateLocalModel());
+
     this.registerEditorExtension(
       createAutocompleteExtension(
-        () => this.settings,
-        () => this.app.workspace.getActiveFile()?.name ?? "Untitled"
+        state => this.getEffectiveSettings(editorFile(state)),
+        state => this.getNoteInfo(editorFile(state)),
+        (state, prefix) => {
+          const file = editorFile(state);
+          if (!file) {
+            return Promise.resolve([]);
+          }
+          return this.vaultContext.collect(file, prefix, this.getEffectiveSettings(file).vaultContextChars);
+        },
+        (type, model, ms) => this.usage.record(type, model, ms),
+        this.health,
+        prefix => this.ngram.complete(prefix),
+        (state, context) =>
+          this.linkIndex.complete(context, editorFile(state)?.path ?? "", LINK_CANDIDATES),
+        (state, text) => this.linkIndex.validate(text, editorFile(state)?.path ?? ""),
+        this.scheduler,
+        () => this.warmUp(),
+        (request, settings) => this.prepareRequest(request, settings),
+        this.service
       )
     );
 
+    this.addSuggestionCommand(
+      "accept-suggestion",
+      "Accept suggestion",
+      view => acceptRewrite(view) || acceptSuggestion(view, "all")
+    );
+    this.addSuggestionCommand("accept-next-word", "Accept next word of suggestion", view =>
+      acceptSuggestion(view, "word")
+    );
+    this.addSuggestionCommand("accept-next-phrase", "Accept next phrase of suggestion", view =>
+      acceptSuggestion(view, "phrase")
+    );
+    this.addSuggestionCommand("accept-next-line", "Accept next line of suggestion", view =>
+      acceptSuggestion(view, "line")
+    );
+    this.addSuggestionCommand(
+      "dismiss-suggestion",
+      "Dismiss suggestion",
+      view => rejectRewrite(view) || dismissSuggestion(view)
+    );
+    this.addSuggestionCommand("next-suggestion", "Show next suggestion", view =>
+      cycleSuggestion(view, 1)
+    );
+    this.addSuggestionCommand("previous-suggestion", "Show previous suggestion", view =>
+      cycleSuggestion(view, -1)
+    );
+
+    this.addCommand({
+      id: "trigger-suggestion",
+      name: "Suggest now",
+      editorCallback: editor => {
+        getEditorView(editor)?.dispatch({
+          effects: requestSuggestionEffect.of("inline")
+        });
+      }
+    });
+
+    this.addCommand({
+      id: "continue-paragraph",
+      name: "Continue paragraph",
+      editorCallback: editor => {
+        getEditorView(editor)?.dispatch({
+          effects: requestSuggestionEffect.of("paragraph")
+        });
+      }
+    });
+
+    this.addCommand({
+      id: "rewrite-selection",
+      name: "Rewrite selection",
+      editorCheckCallback: (checking, editor) => {
+        const view = getEditorView(editor);
+        if (
+          !view ||
+          view.state.selection.main.empty ||
+          !this.getEffectiveSettings(editorFile(view.state)).enabled
+        ) {
+          return false;
+        }
+        if (!checking) {
+          const { from, to } = view.state.selection.main;
+          new RewriteInstructionModal(this.app, instruction => {
+            if (to <= view.state.doc.length) {
+              view.dispatch({ effects: startRewriteEffect.of({ from, to, instruction }) });
+            }
+          }).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "list-ai-text",
+      name: "List AI-written text in current note",
+      editorCheckCallback: (checking, editor) => {
+        const view = getEditorView(editor);
+        if (!view) {
+          return false;
+        }
+        if (!checking) {
+          new ProvenanceModal(this.app, view).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "clear-ai-text",
+      name: "Clear AI-written text marks in current note",
+      editorCheckCallback: (checking, editor) => {
+        const view = getEditorView(editor);
+        if (!view || view.state.field(provenanceField, false)?.length === 0) {
+          return false;
+        }
+        if (!checking) {
+          view.dispatch({ effects: setProvenanceEffect.of([]) });
+          new Notice("Cleared the AI-written text marks in this note.");
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "toggle-autocomplete",
+      name: "Toggle autocomplete",
+      callback: async () => {
+        this.settings.enabled = !this.settings.enabled;
+        await this.saveSettings();
+        new Notice(`Smart Compose autocomplete ${this.settings.enabled ? "on" : "off"}.`);
+      }
+    });
+
+    this.addCommand({
+      id: "toggle-autocomplete-for-note",
+      name: "Toggle autocomplete for current note",
+      checkCallback: checking => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md") {
+          return false;
+        }
+        if (!checking) {
+          void this.toggleForNote(file);
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "open-usage-dashboard",
+      name: "Open usage dashboard",
+      callback: () => void this.openUsageView()
+    });
+
+    this.addCommand({
+      id: "reset-usage-statistics",
+      name: "Reset usage statistics",
+      callback: async () => {
+        await this.usage.reset();
+        new Notice("Smart Compose usage statistics reset.");
+      }
+    });
+
+    this.addCommand({
+      id: "export-usage-statistics",
+      name: "Export usage statistics",
+      callback: () => void this.exportUsage()
+    });
+
+    this.addCommand({
+      id: "evaluate-on-vault",
+      name: "Evaluate suggestions on the vault",
+      checkCallback: checking => {
+        if (this.evaluation) {
+          return false;
+        }
+        if (!checking) {
+          new EvaluationModal(
+            this.app,
+            this.getEvaluationConfigs().map(config => config.name),
+            options => void this.runEvaluation(options)
+          ).open();
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "cancel-evaluation",
+      name: "Cancel evaluation",
+      checkCallback: checking => {
+        if (!this.evaluation) {
+          return false;
+        }
+        if (!checking) {
+          this.evaluation.cancelled = true;
+        }
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: "show-last-prompt",
+      name: "Show last sent prompt",
+      callback: () => {
+        if (!this.lastPrompt) {
+          new Notice("No prompt has been sent since Obsidian started.");
+          return;
+        }
+        new SentPromptModal(this.app, this.lastPrompt).open();
+      }
+    });
+
     this.addSettingTab(new InlineAutocompleteSettingTab(this.app, this));
   }
 
+  onunload(): void {
+    void this.usage.flush();
+    void this.provenance.flush();
+    document.body.removeClass(AI_TEXT_BODY_CLASS);
+    this.ngram.clear();
+  }
+
+  updateAiTextUnderline(): void {
+    document.body.toggleClass(AI_TEXT_BODY_CLASS, this.settings.underlineAiText);
+  }
+
+  updateLocalModel(): void {
+    if (this.settings.localCompletion === "off") {
+      this.ngram.clear();
+      return;
+    }
+    void this.ngram.train(() => this.settings.localCompletion === "off");
+  }
+
+  private async toggleForNote(file: TFile): Promise<void> {
+    if (!this.settings.enabled) {
+      new Notice("Smart Compose autocomplete is turned off globally.");
+      return;
+    }
+    const enabled = this.getEffectiveSettings(file).enabled;
+    await this.app.fileManager.processFrontMatter(file, frontmatter => {
+      const current: unknown = frontmatter[PROFILE_FRONTMATTER_KEY];
+      if (enabled) {
+        frontmatter[PROFILE_FRONTMATTER_KEY] = false;
+      } else if (current === false || current === "off") {
+        delete frontmatter[PROFILE_FRONTMATTER_KEY];
+      } else {
+        frontmatter[PROFILE_FRONTMATTER_KEY] = true;
+      }
+    });
+    new Notice(`Smart Compose autocomplete ${enabled ? "off" : "on"} for ${file.basename}.`);
+  }
+
+  private usagePath(): string {
+    return normalizePath(`${this.manifest.dir ?? ""}/usage.json`);
+  }
+
+  private async loadUsageEvents(): Promise<UsageEvent[]> {
+    const adapter = this.app.vault.adapter;
+    const path = this.usagePath();
+    try {
+      if (!(await adapter.exists(path))) {
+        return [];
+      }
+      const parsed: unknown = JSON.parse(await adapter.read(path));
+      return Array.isArray(parsed) ? (parsed as UsageEvent[]) : [];
+    } catch (error) {
+      console.warn("[Smart Compose]", "could not read usage statistics", error);
+      return [];
+    }
+  }
+
+  private async saveUsageEvents(events: UsageEvent[]): Promise<void> {
+    await this.app.vault.adapter.write(this.usagePath(), JSON.stringify(events));
+  }
+
+  private provenancePath(): string {
+    return normalizePath(`${this.manifest.dir ?? ""}/provenance.json`);
+  }
+
+  private async loadProvenance(): Promise<ProvenanceData> {
+    const adapter = this.app.vault.adapter;
+    const path = this.provenancePath();
+    try {
+      if (!(await adapter.exists(path))) {
+        return {};
+      }
+      const parsed: unknown = JSON.parse(await adapter.read(path));
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+        ? (parsed as ProvenanceData)
+        : {};
+    } catch (error) {
+      console.warn("[Smart Compose]", "could not read AI-written text records", error);
+      return {};
+    }
+  }
+
+  private async saveProvenance(data: ProvenanceData): Promise<void> {
+    await this.app.vault.adapter.write(this.provenancePath(), JSON.stringify(data));
+  }
+
+  private async openUsageView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0] ?? null;
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (!leaf) {
+        return;
+      }
+      await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+    }
+    await workspace.revealLeaf(leaf);
+  }
+
+  private async exportUsage(): Promise<void> {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    const path = normalizePath(`Smart Compose usage ${stamp}.json`);
+    const report = {
+      exportedAt: new Date().toISOString(),
+      models: this.usage.summarizeByModel(),
+      days: this.usage.summarizeByDay(),
+      events: this.usage.getEvents()
+    };
+    await this.app.vault.create(path, JSON.stringify(report, null, 2));
+    new Notice(`Exported usage statistics to ${path}.`);
+  }
+
+  private addSuggestionCommand(
+    id: string,
+    name: string,
+    run: (view: EditorView) => boolean
+  ): void {
+    this.addCommand({
+      id,
+      name,
+      editorCheckCallback: (checking, editor) => {
+        const view = getEditorView(editor);
+        if (
+          !view ||
+          (!view.state.field(suggestionField, false) && !view.state.field(rewriteField, false))
+        ) {
+          return false;
+        }
+        if (!checking) {
+          run(view);
+        }
+        return true;
+      }
+    });
+  }
+
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-    this.settings.contextChars = clamp(this.settings.contextChars, 100, 800);
+    const data = (await this.loadData()) as (Partial<AutocompleteSettings> & { ollamaUrl?: string }) | null;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    if (data?.ollamaUrl && !data.serverUrl) {
+      this.settings.serverUrl = data.ollamaUrl;
+    }
+    delete (this.settings as { ollamaUrl?: string }).ollamaUrl;
+    if (!(this.settings.backend in BACKENDS)) {
+      this.settings.backend = DEFAULT_SETTINGS.backend;
+    }
+    const legacyContext = data as { contextChars?: number } | null;
+    if (data?.contextTokens === undefined && typeof legacyContext?.contextChars === "number") {
+      this.settings.contextTokens = Math.round(legacyContext.contextChars / CHARS_PER_CONTEXT_TOKEN);
+    }
+    delete (this.settings as { contextChars?: number }).contextChars;
+    this.settings.contextTokens = clamp(this.settings.contextTokens, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS);
+    if (!(this.settings.fimMode in FIM_MODE_LABELS)) {
+      this.settings.fimMode = DEFAULT_SETTINGS.fimMode;
+    }
+    this.settings.suffixChars = clamp(this.settings.suffixChars, 50, 800);
     this.settings.debounceMs = clamp(this.settings.debounceMs, 100, 500);
+    this.settings.keepAlive = String(this.settings.keepAlive ?? "").trim();
+    this.settings.triggerPunctuation = Object.assign(
+      {},
+      data?.triggerPunctuation ?? DEFAULT_TRIGGER_PUNCTUATION
+    );
     this.settings.maxTokens = clamp(this.settings.maxTokens, 8, 32);
+    this.settings.paragraphMaxTokens = clamp(this.settings.paragraphMaxTokens, 32, 512);
+    this.settings.candidateCount = clamp(this.settings.candidateCount, 1, 5);
+    this.settings.maxConcurrentRequests = clamp(this.settings.maxConcurrentRequests, 1, 8);
+    this.settings.vaultContextChars = clamp(this.settings.vaultContextChars, 200, 4000);
+    const legacy = data as { disableInCodeBlocks?: boolean } | null;
+    this.settings.syntaxRules = Object.assign({}, DEFAULT_SYNTAX_RULES, data?.syntaxRules);
+    if (legacy?.disableInCodeBlocks === false && !data?.syntaxRules) {
+      this.settings.syntaxRules.codeBlock = true;
+      this.settings.syntaxRules.inlineCode = true;
+    }
+    delete (this.settings as { disableInCodeBlocks?: boolean }).disableInCodeBlocks;
+    this.settings.codeModels = Object.assign({}, data?.codeModels);
+    if (this.settings.promptPreset !== CUSTOM_PRESET && !PROMPT_PRESETS[this.settings.promptPreset]) {
+      this.settings.promptPreset = DEFAULT_PRESET;
+    }
+    if (!(this.settings.localCompletion in LOCAL_COMPLETION_LABELS)) {
+      this.settings.localCompletion = DEFAULT_SETTINGS.localCompletion;
+    }
+    this.settings.filters = Object.assign({}, DEFAULT_FILTERS, data?.filters);
+    this.settings.blocklist = Array.isArray(data?.blocklist) ? [...(data?.blocklist ?? [])] : [];
+    for (const key of ["excludedFolders", "excludedTags", "excludedProperties", "redactPatterns"] as const) {
+      const entries = data?.[key];
+      this.settings[key] = Array.isArray(entries) ? [...entries] : [...DEFAULT_SETTINGS[key]];
+    }
+    for (const key of ["acceptKeys", "dismissKeys"] as const) {
+      const keys = data?.[key];
+      this.settings[key] = Array.isArray(keys) ? [...keys] : [...DEFAULT_SETTINGS[key]];
+    }
+    const modelTemplates = Array.isArray(data?.modelTemplates) ? data?.modelTemplates ?? [] : [];
+    this.settings.modelTemplates = modelTemplates.map(entry => ({ ...entry }));
+    const profiles = Array.isArray(data?.profiles) ? data?.profiles ?? [] : [];
+    this.settings.profiles = profiles.map(profile => {
+      const { contextChars, ...overrides } = (profile.overrides ?? {}) as ProfileOverrides & {
+        contextChars?: number;
+      };
+      if (overrides.contextTokens === undefined && typeof contextChars === "number") {
+        overrides.contextTokens = Math.round(contextChars / CHARS_PER_CONTEXT_TOKEN);
+      }
+      return { ...createProfile(profile.name ?? "Profile"), ...profile, overrides };
+    });
   }
 
   async saveSettings(): Promise<void> {
+    this.effectiveSettings.clear();
     await this.saveData(this.settings);
+    this.health.reset();
   }
-}
-
-class InlineAutocompleteSettingTab extends PluginSettingTab {
-  private plugin: InlineAutocompletePlugin;
 
-  constructor(app: App, plugin: InlineAutocompletePlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+  private updateStatusBar(): void {
+    const status = this.health.getStatus(this.getEffectiveSettings().enabled);
+    const latency = this.health.getLastLatency();
+    let text = `Compose: ${STATUS_LABELS[status]}`;
+    if (latency !== null && status !== "disabled") {
+      text += ` · ${latency} ms`;
+    }
+    let tooltip = "Smart Compose";
+    const error = this.health.getLastError();
+    if (status === "error" && error) {
+      const retryIn = Math.ceil(this.health.getRetryInMs() / 1000);
+      tooltip = retryIn > 0 ? `${error.message} (retrying in ${retryIn} s)` : error.message;
+    } else if (status === "disabled") {
+      tooltip = "Autocomplete is off for this note";
+    }
+    this.statusBarEl.setText(text);
+    this.statusBarEl.setAttr("aria-label", tooltip);
+    this.statusBarEl.toggleClass("is-error", status === "error");
   }
 
-  display(): void {
-    const { containerEl } = this;
+  // Loading a model can take seconds, so do it before the first suggestion is needed.
+  warmUp(): void {
+    const settings = this.getEffectiveSettings();
+    const key = schedulerKey(settings, settings.model);
+    if (
+      !settings.enabled ||
+      !settings.warmUp ||
+      !this.health.canRequest() ||
+      !this.scheduler.needsWarmUp(key)
+    ) {
+      return;
+    }
+    this.scheduler.markActive(key);
+    const startedAt = Date.now();
+    warmUpModel(getBackend(settings.backend), settings.model, settings.keepAlive, {
+      baseUrl: settings.serverUrl,
+      apiKey: settings.apiKey,
+      timeoutMs: WARM_UP_TIMEOUT_MS
+    }).then(
+      () => debugLog(() => settings, "model warmed up", { ms: Date.now() - startedAt }),
+      (error: CompletionError) =>
+        debugLog(() => settings, "warm-up failed", { kind: error.kind, message: error.message })
+    );
+  }
 
-    containerEl.empty();
+  // Each profile is a configuration on top of the global settings, so models, prompt templates
+  // and context sizes can be compared side by side.
+  private getEvaluationConfigs(): { name: string; settings: AutocompleteSettings }[] {
+    return [
+      { name: CURRENT_SETTINGS_NAME, settings: this.settings },
+      ...this.settings.profiles.map(profile => ({
+        name: `Profile: ${profile.name}`,
+        settings: Object.assign({}, this.settings, profile.overrides)
+      }))
+    ];
+  }
 
-    new Setting(containerEl)
-      .setName("Ollama URL")
-      .setDesc("Local Ollama server URL.")
-      .addText(text =>
-        text
-          .setPlaceholder("http://localhost:11434")
-          .setValue(this.plugin.settings.ollamaUrl)
-          .onChange(async value => {
-            this.plugin.settings.ollamaUrl = value.trim() || DEFAULT_SETTINGS.ollamaUrl;
-            await this.plugin.saveSettings();
-          })
+  private async runEvaluation(options: EvaluationOptions): Promise<void> {
+    const evaluation = { cancelled: false };
+    this.evaluation = evaluation;
+    const notice = new Notice("Sampling cursor positions…", 0);
+    try {
+      const samples = await sampleVaultPositions(
+        this.app,
+        options.samples,
+        options.seed,
+        (state, file) =>
+          !isExcludedNote(this.app, file, this.settings) &&
+          checkCursorEligibility(state, this.settings, cursorLanguage(state, this.getNoteInfo(file)))
+            .allowed &&
+          !detectLinkContext(state.doc, state.selection.main.head) &&
+          sliceContext(state, this.settings).trim().length >= 10,
+        () => evaluation.cancelled
       );
-
-    new Setting(containerEl)
-      .setName("Model name")
-      .setDesc("Ollama model name for raw continuation.")
-      .addText(text =>
-        text
-          .setPlaceholder("qwen3:0.6b")
-          .setValue(this.plugin.settings.model)
+      if (samples.length === 0) {
+        new Notice("No eligible cursor positions found in the vault.");
+        return;
+      }
+      const runs: EvaluationRun[] = [];
+      for (const config of this.getEvaluationConfigs()) {
+        if (!options.configs.includes(config.name)) {
+          continue;
+        }
+        const settings = options.serverUrl
+          ? { ...config.settings, serverUrl: options.serverUrl }
+          : config.settings;
+        const run: EvaluationRun = {
+          name: config.name,
+          description: [
+            getBackend(settings.backend).label,
+            settings.serverUrl,
+            settings.model,
+            `template ${settings.promptPreset}`,
+            `context ${settings.contextTokens} tokens`,
+            `temperature ${settings.temperature}`
+          ].join(" · "),
+          outcomes: []
+        };
+        for (const sample of samples) {
+          if (evaluation.cancelled) {
+            new Notice("Evaluation cancelled.");
+            return;
+          }
+          notice.setMessage(`Evaluating ${config.name}: ${run.outcomes.length + 1}/${samples.length}`);
+          run.outcomes.push(await this.evaluateSample(settings, sample));
+        }
+        runs.push(run);
+      }
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      const file = await this.app.vault.create(
+        normalizePath(`Smart Compose evaluation ${stamp}.md`),
+        renderEvaluationReport(samples, runs, options)
+      );
+      await this.app.workspace.getLeaf(true).openFile(file);
+    } finally {
+      notice.hide();
+      this.evaluation = null;
+    }
+  }
+
+  // Runs one position through the same prompt, request and clean-up steps as the editor,
+  // without usage statistics or backoff.
+  private async evaluateSample(
+    settings: AutocompleteSettings,
+    sample: EvaluationSample
+  ): Promise<SampleOutcome> {
+    const { state, file } = sample;
+    const note = this.getNoteInfo(file);
+    const language = cursorLanguage(state, note);
+    const model = checkCursorEligibility(state, settings, language).model ?? settings.model;
+    const prefix = sliceContext(state, settings);
+    const suffix = sliceSuffix(state, settings);
+    const startedAt = Date.now();
+    try {
+      const related = settings.vaultContext
+        ? await this.vaultContext.collect(file, prefix, settings.vaultContextChars)
+        : [];
+      const prompt = buildPrompt(state, prefix, settings, model, note, related);
+      const fim = formatPrompt(settings, prompt, suffix);
+      const result = await this.service.stream(
+        getBackend(settings.backend),
+        this.prepareRequest(buildCompletionRequest(settings, model, fim, "inline", 0), settings),
+        {
+          baseUrl: settings.serverUrl,
+          apiKey: settings.apiKey,
+          timeoutMs: EVALUATION_TIMEOUT_MS,
+          signal: new AbortController().signal,
+          onText: () => undefined
+        }
+      );
+      const suggestion = processSuggestion(
+        { text: result.text, final: true, truncated: result.truncated },
+        state,
+        prefix,
+        suffix,
+        "inline",
+        settings,
+        language,
+        text => this.linkIndex.validate(text, file.path)
+      );
+      return { suggestion: suggestion ?? "", latencyMs: Date.now() - startedAt, error: null };
+    } catch (error) {
+      return {
+        suggestion: "",
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  // Runs on the finished request, after templates and fill-in-the-middle have added everything.
+  prepareRequest(request: CompletionRequest, settings: AutocompleteSettings): CompletionRequest {
+    const prompt = redactText(request.prompt, settings);
+    const suffix = request.suffix === undefined ? null : redactText(request.suffix, settings);
+    const redacted = { ...request, prompt: prompt.text, suffix: suffix?.text };
+    this.lastPrompt = {
+      time: Date.now(),
+      url: settings.serverUrl,
+      model: request.model,
+      prompt: redacted.prompt,
+      suffix: redacted.suffix,
+      redactions: prompt.count + (suffix?.count ?? 0)
+    };
+    return redacted;
+  }
+
+  async fetchModels(): Promise<string[]> {
+    return listModels(getBackend(this.settings.backend), {
+      baseUrl: this.settings.serverUrl,
+      apiKey: this.settings.apiKey,
+      timeoutMs: MODEL_LIST_TIMEOUT_MS
+    });
+  }
+
+  async testConnection(): Promise<string> {
+    const backend = getBackend(this.settings.backend);
+    const { model, serverUrl } = this.settings;
+    const startedAt = Date.now();
+    try {
+      const models = await this.fetchModels();
+      const ms = Date.now() - startedAt;
+      this.health.reset();
+      const installed = models.includes(model) || models.includes(`${model}:latest`);
+      if (backend.kind !== "llamacpp" && !installed) {
+        return `Connected in ${ms} ms, but the server has no model named "${model}".`;
+      }
+      return `Connected to ${backend.label} in ${ms} ms.`;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return `Could not reach ${backend.label} at ${serverUrl}: ${message}`;
+    }
+  }
+
+  getNoteInfo(file: TFile | null = this.app.workspace.getActiveFile()): NoteInfo {
+    if (!file) {
+      return { fileName: "Untitled", path: "", tags: [], language: null };
+    }
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) ?? [] : [];
+    const declared: unknown = cache?.frontmatter?.lang ?? cache?.frontmatter?.language;
+    return {
+      fileName: file.name,
+      path: file.path,
+      tags: [...new Set(tags)],
+      language: typeof declared === "string" ? declared : null
+    };
+  }
+
+  async previewPrompt(): Promise<{ prompt: string; suffix?: string } | null> {
+    const editor = this.app.workspace.activeEditor?.editor;
+    const view = editor ? getEditorView(editor) : null;
+    if (!view) {
+      return null;
+    }
+    const { state } = view;
+    const file = editorFile(state);
+    const settings = this.getEffectiveSettings(file);
+    const { model } = checkSyntaxEligibility(
+      state,
+      state.selection.main.head,
+      settings.syntaxRules,
+      settings.codeModels
+    );
+    const prefix = sliceContext(state, settings);
+    const related =
+      settings.vaultContext && file
+        ? await this.vaultContext.collect(file, prefix, settings.vaultContextChars)
+        : [];
+    const prompt = buildPrompt(
+      state,
+      prefix,
+      settings,
+      model ?? settings.model,
+      this.getNoteInfo(file),
+      related
+    );
+    const suffix = sliceSuffix(state, settings);
+    const fim = formatPrompt(settings, prompt, suffix);
+    return { prompt: fim.prompt, suffix: fim.suffix };
+  }
+
+  getEffectiveSettings(file: TFile | null = this.app.workspace.getActiveFile()): AutocompleteSettings {
+    const path = file?.path ?? null;
+    const cached = this.effectiveSettings.get(path);
+    if (cached) {
+      return cached;
+    }
+    const match = matchProfile(this.app, file, this.settings.profiles);
+    const settings: AutocompleteSettings = Object.assign({}, this.settings, match.profile?.overrides);
+    if (match.enabled !== null) {
+      settings.enabled = this.settings.enabled && match.enabled;
+    }
+    if (isExcludedNote(this.app, file, this.settings)) {
+      settings.enabled = false;
+    }
+    if (match.profile) {
+      debugLog(() => settings, "profile applied", { profile: match.profile.name, path });
+    }
+    this.effectiveSettings.set(path, settings);
+    return settings;
+  }
+}
+
+class InlineAutocompleteSettingTab extends PluginSettingTab {
+  private plugin: InlineAutocompletePlugin;
+  private previewRequest = 0;
+  private exclusionsChanged = false;
+
+  constructor(app: App, plugin: InlineAutocompletePlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  // Retraining reads the whole vault, so it waits until the settings are closed.
+  hide(): void {
+    if (this.exclusionsChanged) {
+      this.exclusionsChanged = false;
+      this.plugin.updateLocalModel();
+    }
+  }
+
+  display(): void {
+    const { containerEl } = this;
+
+    containerEl.empty();
+
+    const backend = getBackend(this.plugin.settings.backend);
+
+    new Setting(containerEl)
+      .setName("Enable autocomplete")
+      .setDesc("Show inline suggestions while typing. Profiles can turn this off for some notes.")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.enabled)
           .onChange(async value => {
-            this.plugin.settings.model = value.trim() || DEFAULT_SETTINGS.model;
+            this.plugin.settings.enabled = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName("Context characters")
-      .setDesc("Number of characters before the cursor (100-800).")
+      .setName("Backend")
+      .setDesc("Completion server protocol.")
+      .addDropdown(dropdown => {
+        for (const option of Object.values(BACKENDS)) {
+          dropdown.addOption(option.kind, option.label);
+        }
+        dropdown.setValue(backend.kind).onChange(async value => {
+          const previous = getBackend(this.plugin.settings.backend);
+          const next = getBackend(value as BackendKind);
+          this.plugin.settings.backend = next.kind;
+          if (this.plugin.settings.serverUrl === previous.defaultUrl) {
+            this.plugin.settings.serverUrl = next.defaultUrl;
+          }
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Server URL")
+      .setDesc(`Base URL of the ${backend.label} server.`)
+      .addText(text =>
+        text
+          .setPlaceholder(backend.defaultUrl)
+          .setValue(this.plugin.settings.serverUrl)
+          .onChange(async value => {
+            this.plugin.settings.serverUrl = value.trim() || backend.defaultUrl;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    if (backend.kind === "openai") {
+      new Setting(containerEl)
+        .setName("API key")
+        .setDesc("Optional bearer token for OpenAI-compatible servers.")
+        .addText(text =>
+          text
+            .setPlaceholder("Optional")
+            .setValue(this.plugin.settings.apiKey)
+            .onChange(async value => {
+              this.plugin.settings.apiKey = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    const connectionSetting = new Setting(containerEl)
+      .setName("Connection")
+      .setDesc("Check that the server is reachable and has the model.")
+      .addButton(button =>
+        button.setButtonText("Test connection").onClick(async () => {
+          button.setDisabled(true);
+          connectionSetting.setDesc("Testing…");
+          const message = await this.plugin.testConnection();
+          connectionSetting.setDesc(message);
+          new Notice(message);
+          button.setDisabled(false);
+        })
+      );
+
+    const modelSetting = new Setting(containerEl)
+      .setName("Model name")
+      .setDesc("Loading models from the server…")
+      .addExtraButton(button =>
+        button
+          .setIcon("refresh-cw")
+          .setTooltip("Reload model list")
+          .onClick(() => this.display())
+      );
+    modelSetting.addDropdown(dropdown => {
+      const current = this.plugin.settings.model;
+      dropdown
+        .addOption(current, current)
+        .setValue(current)
+        .onChange(async value => {
+          this.plugin.settings.model = value;
+          await this.plugin.saveSettings();
+        });
+      void this.loadModelOptions(modelSetting, dropdown);
+    });
+
+    new Setting(containerEl)
+      .setName("Chat mode")
+      .setDesc(
+        "For instruction-tuned models: send the note as a chat message with an instruction to continue it, instead of raw text to complete."
+      )
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.chatMode).onChange(async value => {
+          this.plugin.settings.chatMode = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.chatMode) {
+      new Setting(containerEl)
+        .setName("Chat instruction")
+        .setDesc(`The system message. The note marks the cursor as ${CURSOR_MARKER}. Leave empty to use the default.`)
+        .addTextArea(text => {
+          text.inputEl.rows = 6;
+          text.inputEl.addClass("smart-compose-template-input");
+          text.setValue(this.plugin.settings.chatInstruction).onChange(async value => {
+            this.plugin.settings.chatInstruction = value;
+            await this.plugin.saveSettings();
+          });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName("Context tokens")
+      .setDesc(
+        `Approximate number of tokens of the note to send (${MIN_CONTEXT_TOKENS}-${MAX_CONTEXT_TOKENS}). The note's headings above the cursor are always included; earlier sections are shortened to fit.`
+      )
       .addText(text =>
         text
-          .setPlaceholder("400")
-          .setValue(String(this.plugin.settings.contextChars))
+          .setPlaceholder(String(DEFAULT_SETTINGS.contextTokens))
+          .setValue(String(this.plugin.settings.contextTokens))
           .onChange(async value => {
             const parsed = Number.parseInt(value, 10);
             const next = Number.isNaN(parsed)
-              ? DEFAULT_SETTINGS.contextChars
-              : clamp(parsed, 100, 800);
-            this.plugin.settings.contextChars = next;
+              ? DEFAULT_SETTINGS.contextTokens
+              : clamp(parsed, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS);
+            this.plugin.settings.contextTokens = next;
             await this.plugin.saveSettings();
           })
       );
 
+    new Setting(containerEl)
+      .setName("Fill-in-the-middle")
+      .setDesc("Also send the text after the cursor so mid-paragraph suggestions fit the surrounding text.")
+      .addDropdown(dropdown => {
+        for (const [mode, label] of Object.entries(FIM_MODE_LABELS)) {
+          dropdown.addOption(mode, label);
+        }
+        dropdown.setValue(this.plugin.settings.fimMode).onChange(async value => {
+          this.plugin.settings.fimMode = value as FimMode;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (this.plugin.settings.fimMode !== "off") {
+      new Setting(containerEl)
+        .setName("Suffix characters")
+        .setDesc("Number of characters after the cursor (50-800).")
+        .addText(text =>
+          text
+            .setPlaceholder("200")
+            .setValue(String(this.plugin.settings.suffixChars))
+            .onChange(async value => {
+              const parsed = Number.parseInt(value, 10);
+              const next = Number.isNaN(parsed)
+                ? DEFAULT_SETTINGS.suffixChars
+                : clamp(parsed, 50, 800);
+              this.plugin.settings.suffixChars = next;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Debounce delay (ms)")
-      .setDesc("Typing pause before requesting (100-500).")
+      .setDesc("Typing pause before requesting (100-500). With adaptive timing, this is the starting point.")
       .addText(text =>
         text
           .setPlaceholder("250")
@@ -744,6 +2529,82 @@ class InlineAutocompleteSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Adaptive timing")
+      .setDesc("Lengthen the debounce and timeout for slow models and shorten them for fast ones, based on recent latency.")
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.adaptiveTiming).onChange(async value => {
+          this.plugin.settings.adaptiveTiming = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Prefetch at word boundaries")
+      .setDesc("Request right after a space, comma or period instead of waiting for the debounce delay.")
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.prefetch).onChange(async value => {
+          this.plugin.settings.prefetch = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Trigger punctuation")
+      .setDesc(
+        `One "language: characters" per line. Suggestions are requested after these characters, as well as after letters and after a space. The language comes from the note's "lang" frontmatter key, or from Japanese, Chinese, Korean or Thai script on the line; "${DEFAULT_LANGUAGE_KEY}" covers every other language.`
+      )
+      .addTextArea(text =>
+        text
+          .setPlaceholder(`${DEFAULT_LANGUAGE_KEY}: .,\nja: 。、`)
+          .setValue(
+            Object.entries(this.plugin.settings.triggerPunctuation)
+              .map(([language, characters]) => `${language}: ${characters}`)
+              .join("\n")
+          )
+          .onChange(async value => {
+            const triggers: Record<string, string> = {};
+            for (const line of value.split("\n")) {
+              const separator = line.indexOf(":");
+              if (separator === -1) {
+                continue;
+              }
+              const language = line.slice(0, separator).trim().toLowerCase();
+              const characters = line.slice(separator + 1).replace(/\s+/g, "");
+              if (language) {
+                triggers[language] = characters;
+              }
+            }
+            this.plugin.settings.triggerPunctuation = triggers;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Warm up model")
+      .setDesc("Load the model when Obsidian starts and when an editor gains focus after a minute or more idle.")
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.warmUp).onChange(async value => {
+          this.plugin.settings.warmUp = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    if (backend.kind === "ollama") {
+      new Setting(containerEl)
+        .setName("Keep model loaded")
+        .setDesc("How long Ollama keeps the model in memory after a request, for example 30m or 2h. Empty uses the server default.")
+        .addText(text =>
+          text
+            .setPlaceholder("30m")
+            .setValue(this.plugin.settings.keepAlive)
+            .onChange(async value => {
+              this.plugin.settings.keepAlive = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Max tokens")
       .setDesc("Maximum tokens to request (8-32).")
@@ -762,17 +2623,210 @@ class InlineAutocompleteSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Disable in code blocks")
-      .setDesc("Skip suggestions inside fenced/inline code blocks.")
+      .setName("Paragraph max tokens")
+      .setDesc("Maximum tokens for the \"Continue paragraph\" command (32-512).")
+      .addText(text =>
+        text
+          .setPlaceholder("128")
+          .setValue(String(this.plugin.settings.paragraphMaxTokens))
+          .onChange(async value => {
+            const parsed = Number.parseInt(value, 10);
+            const next = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.paragraphMaxTokens
+              : clamp(parsed, 32, 512);
+            this.plugin.settings.paragraphMaxTokens = next;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Temperature")
+      .setDesc("Sampling temperature (0-2).")
+      .addText(text =>
+        text
+          .setPlaceholder("0.2")
+          .setValue(String(this.plugin.settings.temperature))
+          .onChange(async value => {
+            const parsed = Number.parseFloat(value);
+            this.plugin.settings.temperature = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.temperature
+              : clamp(parsed, 0, 2);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Top P")
+      .setDesc("Nucleus sampling threshold (0-1).")
+      .addText(text =>
+        text
+          .setPlaceholder("0.9")
+          .setValue(String(this.plugin.settings.topP))
+          .onChange(async value => {
+            const parsed = Number.parseFloat(value);
+            this.plugin.settings.topP = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.topP
+              : clamp(parsed, 0, 1);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Top K")
+      .setDesc("Number of most likely tokens to sample from (1-200).")
+      .addText(text =>
+        text
+          .setPlaceholder("40")
+          .setValue(String(this.plugin.settings.topK))
+          .onChange(async value => {
+            const parsed = Number.parseInt(value, 10);
+            this.plugin.settings.topK = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.topK
+              : clamp(parsed, 1, 200);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Repeat penalty")
+      .setDesc("Penalty for repeated tokens (1-2).")
+      .addText(text =>
+        text
+          .setPlaceholder("1.05")
+          .setValue(String(this.plugin.settings.repeatPenalty))
+          .onChange(async value => {
+            const parsed = Number.parseFloat(value);
+            this.plugin.settings.repeatPenalty = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.repeatPenalty
+              : clamp(parsed, 1, 2);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Suggestion candidates")
+      .setDesc("Alternatives to request in parallel at rising temperatures (1-5). Cycle with Alt+] and Alt+[.")
+      .addText(text =>
+        text
+          .setPlaceholder("1")
+          .setValue(String(this.plugin.settings.candidateCount))
+          .onChange(async value => {
+            const parsed = Number.parseInt(value, 10);
+            const next = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.candidateCount
+              : clamp(parsed, 1, 5);
+            this.plugin.settings.candidateCount = next;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Parallel requests")
+      .setDesc(
+        "Requests sent to the server at the same time, across all panes and windows (1-8). Others wait their turn. Match this to how many requests your server runs in parallel."
+      )
+      .addText(text =>
+        text
+          .setPlaceholder(String(DEFAULT_SETTINGS.maxConcurrentRequests))
+          .setValue(String(this.plugin.settings.maxConcurrentRequests))
+          .onChange(async value => {
+            const parsed = Number.parseInt(value, 10);
+            this.plugin.settings.maxConcurrentRequests = Number.isNaN(parsed)
+              ? DEFAULT_SETTINGS.maxConcurrentRequests
+              : clamp(parsed, 1, 8);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addKeysSetting(
+      containerEl,
+      "acceptKeys",
+      "Accept keys",
+      "Comma-separated keys that accept the whole suggestion, e.g. Tab, ArrowRight or Mod-Enter. Leave Tab out to keep indenting list items."
+    );
+    this.addKeysSetting(
+      containerEl,
+      "dismissKeys",
+      "Dismiss keys",
+      "Comma-separated keys that dismiss the suggestion."
+    );
+
+    new Setting(containerEl)
+      .setName("Links and tags from the vault")
+      .setDesc(
+        "Inside [[ and after #, suggest existing note names, headings and tags instead of asking the model. Links to missing notes in model suggestions are fixed or cut off."
+      )
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.vaultLinks).onChange(async value => {
+          this.plugin.settings.vaultLinks = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Underline AI-written text")
+      .setDesc(
+        "Accepted suggestions and rewrites are always recorded per note. Turn this on to show them with a subtle underline."
+      )
+      .addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.underlineAiText).onChange(async value => {
+          this.plugin.settings.underlineAiText = value;
+          await this.plugin.saveSettings();
+          this.plugin.updateAiTextUnderline();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Local completion")
+      .setDesc(
+        "Suggest phrases from a word model built from your vault, without the server. Useful for recurring names and boilerplate."
+      )
+      .addDropdown(dropdown => {
+        for (const [mode, label] of Object.entries(LOCAL_COMPLETION_LABELS)) {
+          dropdown.addOption(mode, label);
+        }
+        dropdown.setValue(this.plugin.settings.localCompletion).onChange(async value => {
+          const previous = this.plugin.settings.localCompletion;
+          this.plugin.settings.localCompletion = value as LocalCompletionMode;
+          await this.plugin.saveSettings();
+          if (previous === "off" || value === "off") {
+            this.plugin.updateLocalModel();
+          }
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Vault context")
+      .setDesc("Add snippets from linked notes, backlinks and notes sharing tags ahead of the prompt.")
       .addToggle(toggle =>
         toggle
-          .setValue(this.plugin.settings.disableInCodeBlocks)
+          .setValue(this.plugin.settings.vaultContext)
           .onChange(async value => {
-            this.plugin.settings.disableInCodeBlocks = value;
+            this.plugin.settings.vaultContext = value;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
 
+    if (this.plugin.settings.vaultContext) {
+      new Setting(containerEl)
+        .setName("Vault context characters")
+        .setDesc("Character budget for related note snippets (200-4000).")
+        .addText(text =>
+          text
+            .setPlaceholder("800")
+            .setValue(String(this.plugin.settings.vaultContextChars))
+            .onChange(async value => {
+              const parsed = Number.parseInt(value, 10);
+              const next = Number.isNaN(parsed)
+                ? DEFAULT_SETTINGS.vaultContextChars
+                : clamp(parsed, 200, 4000);
+              this.plugin.settings.vaultContextChars = next;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Debug logging")
       .setDesc("Increase logging verbosity for debugging.")
@@ -784,5 +2838,514 @@ class InlineAutocompleteSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName("Suggest in")
+      .setDesc("Markdown syntax where suggestions may appear. Frontmatter is always skipped.")
+      .setHeading();
+
+    for (const [category, label] of Object.entries(SYNTAX_CATEGORY_LABELS) as [
+      SyntaxCategory,
+      string
+    ][]) {
+      new Setting(containerEl).setName(label).addToggle(toggle =>
+        toggle.setValue(this.plugin.settings.syntaxRules[category]).onChange(async value => {
+          this.plugin.settings.syntaxRules[category] = value;
+          await this.plugin.saveSettings();
+        })
+      );
+    }
+
+    new Setting(containerEl)
+      .setName("Code block models")
+      .setDesc(
+        "One \"language: model\" per line. Fenced code blocks in these languages are completed with that model, even when code blocks are turned off above."
+      )
+      .addTextArea(text =>
+        text
+          .setPlaceholder("python: qwen2.5-coder:1.5b")
+          .setValue(
+            Object.entries(this.plugin.settings.codeModels)
+              .map(([language, model]) => `${language}: ${model}`)
+              .join("\n")
+          )
+          .onChange(async value => {
+            const codeModels: Record<string, string> = {};
+            for (const line of value.split("\n")) {
+              const separator = line.indexOf(":");
+              if (separator === -1) {
+                continue;
+              }
+              const language = line.slice(0, separator).trim().toLowerCase();
+              const model = line.slice(separator + 1).trim();
+              if (language && model) {
+                codeModels[language] = model;
+              }
+            }
+            this.plugin.settings.codeModels = codeModels;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.displayFilters(containerEl);
+    this.displayPrivacy(containerEl);
+    this.displayPromptTemplates(containerEl);
+    this.displayProfiles(containerEl);
+  }
+
+  private addKeysSetting(
+    containerEl: HTMLElement,
+    key: "acceptKeys" | "dismissKeys",
+    name: string,
+    desc: string
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS[key].join(", "))
+          .setValue(this.plugin.settings[key].join(", "))
+          .onChange(async value => {
+            this.plugin.settings[key] = splitList(value).filter(spec => parseKeySpec(spec) !== null);
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private async loadModelOptions(setting: Setting, dropdown: DropdownComponent): Promise<void> {
+    const current = this.plugin.settings.model;
+    try {
+      const models = await this.plugin.fetchModels();
+      dropdown.selectEl.empty();
+      for (const model of models) {
+        dropdown.addOption(model, model);
+      }
+      if (!models.includes(current)) {
+        dropdown.addOption(current, `${current} (not on server)`);
+      }
+      dropdown.setValue(current);
+      setting.setDesc("Model for raw continuation, as listed by the server.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      dropdown.selectEl.hide();
+      setting.setDesc(`Could not load the model list (${message}). Enter the name instead.`);
+      setting.addText(text =>
+        text
+          .setPlaceholder("qwen3:0.6b")
+          .setValue(current)
+          .onChange(async value => {
+            this.plugin.settings.model = value.trim() || DEFAULT_SETTINGS.model;
+            await this.plugin.saveSettings();
+          })
+      );
+    }
+  }
+
+  private displayFilters(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Clean up suggestions")
+      .setDesc("Filters applied in this order to model output before it is shown.")
+      .setHeading();
+
+    for (const [filter, label] of Object.entries(FILTER_LABELS) as [
+      SuggestionFilter,
+      { name: string; desc: string }
+    ][]) {
+      new Setting(containerEl)
+        .setName(label.name)
+        .setDesc(label.desc)
+        .addToggle(toggle =>
+          toggle.setValue(this.plugin.settings.filters[filter]).onChange(async value => {
+            this.plugin.settings.filters[filter] = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Blocked words and patterns")
+      .setDesc("One per line. Words match whole words, ignoring case. Wrap a line in slashes for a regular expression, e.g. /\\bTODO\\b/i.")
+      .addTextArea(text =>
+        text.setValue(this.plugin.settings.blocklist.join("\n")).onChange(async value => {
+          this.plugin.settings.blocklist = value
+            .split("\n")
+            .map(line => line.trim())
+            .filter(line => line.length > 0);
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayPrivacy(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Privacy")
+      .setDesc(
+        "Notes matching an exclusion rule get no suggestions and are never sent as vault context. Redaction applies to every prompt before it is sent."
+      )
+      .setHeading();
+
+    this.addListSetting(
+      containerEl,
+      "excludedFolders",
+      "Excluded folders",
+      "One folder or glob per line, e.g. Clients or Journal/**/private."
+    );
+    this.addListSetting(
+      containerEl,
+      "excludedTags",
+      "Excluded tags",
+      "One tag per line. Nested tags are included."
+    );
+    this.addListSetting(
+      containerEl,
+      "excludedProperties",
+      "Excluded properties",
+      "One frontmatter property per line. Notes where it is true, yes or on are excluded."
+    );
+
+    const redactions: ["redactSecrets" | "redactEmails" | "redactPhones", string, string][] = [
+      [
+        "redactSecrets",
+        "Redact API keys and tokens",
+        "Replace common key formats, private keys and values of token, secret or password fields."
+      ],
+      ["redactEmails", "Redact email addresses", "Replace email addresses."],
+      ["redactPhones", "Redact phone numbers", "Replace numbers with eight or more digits in phone number format."]
+    ];
+    for (const [key, name, desc] of redactions) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addToggle(toggle =>
+          toggle.setValue(this.plugin.settings[key]).onChange(async value => {
+            this.plugin.settings[key] = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    this.addListSetting(
+      containerEl,
+      "redactPatterns",
+      "Redacted words and patterns",
+      "One per line, replaced before the prompt is sent. Lines match literally, ignoring case. Wrap a line in slashes for a regular expression, e.g. /ACME-\\d+/."
+    );
+  }
+
+  private addListSetting(
+    containerEl: HTMLElement,
+    key: "excludedFolders" | "excludedTags" | "excludedProperties" | "redactPatterns",
+    name: string,
+    desc: string
+  ): void {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addTextArea(text =>
+        text.setValue(this.plugin.settings[key].join("\n")).onChange(async value => {
+          this.plugin.settings[key] = value
+            .split("\n")
+            .map(line => line.trim())
+            .filter(line => line.length > 0);
+          if (key !== "redactPatterns") {
+            this.exclusionsChanged = true;
+          }
+          await this.plugin.saveSettings();
+        })
+      );
+  }
+
+  private displayPromptTemplates(containerEl: HTMLElement): void {
+    let previewEl: HTMLElement | null = null;
+    const refreshPreview = () => {
+      if (previewEl) {
+        void this.renderPromptPreview(previewEl);
+      }
+    };
+
+    new Setting(containerEl)
+      .setName("Prompt template")
+      .setDesc(
+        "How the note is framed for the model. Variables: {{filename}}, {{title}}, {{path}}, {{frontmatter}}, {{heading_path}}, {{tags}}, {{prefix}}, {{suffix}}, {{date}} and {{related}}. {{#name}}...{{/name}} is only kept when the variable is not empty."
+      )
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName("Preset")
+      .addDropdown(dropdown => {
+        addPresetOptions(dropdown);
+        dropdown.setValue(this.plugin.settings.promptPreset).onChange(async value => {
+          this.plugin.settings.promptPreset = value;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    if (this.plugin.settings.promptPreset === CUSTOM_PRESET) {
+      new Setting(containerEl).setName("Custom template").addTextArea(text => {
+        text.inputEl.rows = 8;
+        text.inputEl.addClass("smart-compose-template-input");
+        text.setValue(this.plugin.settings.promptTemplate).onChange(async value => {
+          this.plugin.settings.promptTemplate = value;
+          await this.plugin.saveSettings();
+          refreshPreview();
+        });
+      });
+    }
+
+    new Setting(containerEl)
+      .setName("Model templates")
+      .setDesc("Use a different template whenever a request goes to one of these models.")
+      .addButton(button =>
+        button.setButtonText("Add model template").onClick(async () => {
+          this.plugin.settings.modelTemplates.push({
+            model: "",
+            preset: DEFAULT_PRESET,
+            template: PROMPT_PRESETS[DEFAULT_PRESET].template
+          });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    for (const entry of this.plugin.settings.modelTemplates) {
+      new Setting(containerEl)
+        .setName("Model")
+        .addText(text =>
+          text
+            .setPlaceholder("llama3.2:1b")
+            .setValue(entry.model)
+            .onChange(async value => {
+              entry.model = value.trim();
+              await this.plugin.saveSettings();
+              refreshPreview();
+            })
+        )
+        .addDropdown(dropdown => {
+          addPresetOptions(dropdown);
+          dropdown.setValue(entry.preset).onChange(async value => {
+            entry.preset = value;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        })
+        .addExtraButton(button =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete model template")
+            .onClick(async () => {
+              this.plugin.settings.modelTemplates.remove(entry);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      if (entry.preset === CUSTOM_PRESET) {
+        new Setting(containerEl).setName("Template").addTextArea(text => {
+          text.inputEl.rows = 6;
+          text.inputEl.addClass("smart-compose-template-input");
+          text.setValue(entry.template).onChange(async value => {
+            entry.template = value;
+            await this.plugin.saveSettings();
+            refreshPreview();
+          });
+        });
+      }
+    }
+
+    new Setting(containerEl)
+      .setName("Preview")
+      .setDesc("The exact prompt for the cursor position in the active note.")
+      .addExtraButton(button =>
+        button.setIcon("refresh-cw").setTooltip("Refresh preview").onClick(refreshPreview)
+      );
+    previewEl = containerEl.createDiv({ cls: "smart-compose-prompt-preview" });
+    refreshPreview();
   }
+
+  private async renderPromptPreview(previewEl: HTMLElement): Promise<void> {
+    const request = ++this.previewRequest;
+    const preview = await this.plugin.previewPrompt();
+    if (request !== this.previewRequest) {
+      return;
+    }
+    previewEl.empty();
+    if (!preview) {
+      previewEl.createEl("p", { text: "Open a note to preview its prompt." });
+      return;
+    }
+    previewEl.createEl("pre", { text: preview.prompt });
+    if (preview.suffix !== undefined) {
+      previewEl.createEl("p", { text: "Suffix sent separately:" });
+      previewEl.createEl("pre", { text: preview.suffix });
+    }
+  }
+
+  private displayProfiles(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName("Profiles")
+      .setDesc(
+        "Override settings per folder or tag. A note can pick a profile by name with the \"smart-compose\" frontmatter key, or set it to false to turn suggestions off."
+      )
+      .setHeading()
+      .addButton(button =>
+        button.setButtonText("Add profile").onClick(async () => {
+          this.plugin.settings.profiles.push(
+            createProfile(`Profile ${this.plugin.settings.profiles.length + 1}`)
+          );
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    for (const profile of this.plugin.settings.profiles) {
+      new Setting(containerEl)
+        .setName("Profile name")
+        .setHeading()
+        .addText(text =>
+          text.setValue(profile.name).onChange(async value => {
+            profile.name = value.trim() || profile.name;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addToggle(toggle =>
+          toggle
+            .setTooltip("Enable suggestions for matching notes")
+            .setValue(profile.enabled)
+            .onChange(async value => {
+              profile.enabled = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton(button =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete profile")
+            .onClick(async () => {
+              this.plugin.settings.profiles.remove(profile);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Folders")
+        .setDesc("Comma-separated folder paths or globs, e.g. Journal/** or Work/*.md.")
+        .addText(text =>
+          text.setValue(profile.folders.join(", ")).onChange(async value => {
+            profile.folders = splitList(value);
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Tags")
+        .setDesc("Comma-separated tags, e.g. meeting, lang/de.")
+        .addText(text =>
+          text.setValue(profile.tags.join(", ")).onChange(async value => {
+            profile.tags = splitList(value);
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName("Backend")
+        .addDropdown(dropdown => {
+          dropdown.addOption("", "Inherit");
+          for (const option of Object.values(BACKENDS)) {
+            dropdown.addOption(option.kind, option.label);
+          }
+          dropdown.setValue(profile.overrides.backend ?? "").onChange(async value => {
+            if (value) {
+              profile.overrides.backend = value as BackendKind;
+            } else {
+              delete profile.overrides.backend;
+            }
+            await this.plugin.saveSettings();
+          });
+        });
+
+      this.addOverrideText(containerEl, profile, "serverUrl", "Server URL", value => value);
+      this.addOverrideText(containerEl, profile, "model", "Model name", value => value);
+      this.addOverrideText(containerEl, profile, "contextTokens", "Context tokens", value =>
+        parseOverride(value, Number.parseInt, MIN_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS)
+      );
+      this.addOverrideText(containerEl, profile, "temperature", "Temperature", value =>
+        parseOverride(value, Number.parseFloat, 0, 2)
+      );
+      this.addOverrideText(containerEl, profile, "topP", "Top P", value =>
+        parseOverride(value, Number.parseFloat, 0, 1)
+      );
+      this.addOverrideText(containerEl, profile, "topK", "Top K", value =>
+        parseOverride(value, Number.parseInt, 1, 200)
+      );
+      this.addOverrideText(containerEl, profile, "repeatPenalty", "Repeat penalty", value =>
+        parseOverride(value, Number.parseFloat, 1, 2)
+      );
+
+      new Setting(containerEl)
+        .setName("Prompt template")
+        .addDropdown(dropdown => {
+          dropdown.addOption("", "Inherit");
+          addPresetOptions(dropdown);
+          dropdown.setValue(profile.overrides.promptPreset ?? "").onChange(async value => {
+            if (value) {
+              profile.overrides.promptPreset = value;
+            } else {
+              delete profile.overrides.promptPreset;
+            }
+            await this.plugin.saveSettings();
+          });
+        });
+    }
+  }
+
+  private addOverrideText<K extends keyof ProfileOverrides>(
+    containerEl: HTMLElement,
+    profile: CompletionProfile,
+    key: K,
+    name: string,
+    parse: (value: string) => ProfileOverrides[K] | undefined
+  ): void {
+    const current = profile.overrides[key];
+    new Setting(containerEl).setName(name).addText(text =>
+      text
+        .setPlaceholder("Inherit")
+        .setValue(current === undefined ? "" : String(current))
+        .onChange(async value => {
+          const parsed = value.trim() ? parse(value.trim()) : undefined;
+          if (parsed === undefined) {
+            delete profile.overrides[key];
+          } else {
+            profile.overrides[key] = parsed;
+          }
+          await this.plugin.saveSettings();
+        })
+    );
+  }
+}
+
+function addPresetOptions(dropdown: DropdownComponent): void {
+  for (const [id, preset] of Object.entries(PROMPT_PRESETS)) {
+    dropdown.addOption(id, preset.label);
+  }
+  dropdown.addOption(CUSTOM_PRESET, "Custom");
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+function parseOverride(
+  value: string,
+  parse: (value: string) => number,
+  min: number,
+  max: number
+): number | undefined {
+  const parsed = parse(value);
+  return Number.isNaN(parsed) ? undefined : clamp(parsed, min, max);
 }
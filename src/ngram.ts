@@ -0,0 +1,278 @@
+import { App, TFile } from "obsidian";
+
+export type LocalCompletionMode = "off" | "fallback" | "instant";
+
+export const LOCAL_COMPLETION_LABELS: Record<LocalCompletionMode, string> = {
+  off: "Off",
+  fallback: "When the server fails or times out",
+  instant: "Instantly, replaced by the model"
+};
+
+export const LOCAL_MODEL_NAME = "local n-gram";
+
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}_'’-]*|[.,;:!?]/gu;
+const ENDS_IN_WORD = /[\p{L}\p{N}_'’-]$/u;
+const SENTENCE_END = /^[.!?]$/;
+const MAX_FILE_CHARS = 100_000;
+const MAX_WORDS = 4;
+const MIN_NEXT_COUNT = 2;
+const MIN_NEXT_SHARE = 0.3;
+const MIN_PARTIAL_CHARS = 2;
+const UPDATE_DELAY_MS = 2000;
+const TRAIN_BATCH = 20;
+const SEPARATOR = "\u0001";
+
+function tokenize(line: string): string[] {
+  return line.match(TOKEN_PATTERN) ?? [];
+}
+
+function stripNonProse(content: string): string[] {
+  const body = content.slice(0, MAX_FILE_CHARS).replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, "");
+  const lines: string[] = [];
+  let inFence = false;
+  for (const line of body.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("```") || trimmed.startsWith("~~~")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (!inFence) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+// Gram keys are "context<SEP>next"; an empty context records a unigram.
+function countGrams(content: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const add = (key: string) => grams.set(key, (grams.get(key) ?? 0) + 1);
+  for (const line of stripNonProse(content)) {
+    const tokens = tokenize(line);
+    for (let i = 0; i < tokens.length; i++) {
+      const next = tokens[i];
+      add(`${SEPARATOR}${next}`);
+      if (i >= 1) {
+        add(`${tokens[i - 1].toLowerCase()}${SEPARATOR}${next}`);
+      }
+      if (i >= 2) {
+        add(`${tokens[i - 2].toLowerCase()} ${tokens[i - 1].toLowerCase()}${SEPARATOR}${next}`);
+      }
+    }
+  }
+  return grams;
+}
+
+export class VaultNgramModel {
+  private readonly app: App;
+  private readonly contexts: Map<string, Map<string, number>>;
+  private readonly documents: Map<string, Map<string, number>>;
+  private readonly pending: Map<string, number>;
+  private readonly isExcluded: (file: TFile) => boolean;
+  private training: boolean;
+
+  constructor(app: App, isExcluded: (file: TFile) => boolean) {
+    this.app = app;
+    this.isExcluded = isExcluded;
+    this.contexts = new Map();
+    this.documents = new Map();
+    this.pending = new Map();
+    this.training = false;
+  }
+
+  async train(isCancelled: () => boolean): Promise<void> {
+    if (this.training) {
+      return;
+    }
+    this.training = true;
+    try {
+      const files = this.app.vault.getMarkdownFiles();
+      for (let i = 0; i < files.length; i++) {
+        if (isCancelled()) {
+          return;
+        }
+        if (this.isExcluded(files[i])) {
+          this.remove(files[i].path);
+        } else {
+          this.setDocument(files[i].path, await this.app.vault.cachedRead(files[i]));
+        }
+        if (i % TRAIN_BATCH === TRAIN_BATCH - 1) {
+          await new Promise(resolve => window.setTimeout(resolve, 0));
+        }
+      }
+    } finally {
+      this.training = false;
+    }
+  }
+
+  scheduleUpdate(file: TFile): void {
+    const existing = this.pending.get(file.path);
+    if (existing !== undefined) {
+      window.clearTimeout(existing);
+    }
+    this.pending.set(
+      file.path,
+      window.setTimeout(async () => {
+        this.pending.delete(file.path);
+        if (this.isExcluded(file)) {
+          this.remove(file.path);
+          return;
+        }
+        try {
+          this.setDocument(file.path, await this.app.vault.cachedRead(file));
+        } catch (error) {
+          this.remove(file.path);
+        }
+      }, UPDATE_DELAY_MS)
+    );
+  }
+
+  remove(path: string): void {
+    const grams = this.documents.get(path);
+    if (grams) {
+      this.apply(grams, -1);
+      this.documents.delete(path);
+    }
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const grams = this.documents.get(oldPath);
+    if (grams) {
+      this.documents.delete(oldPath);
+      this.documents.set(newPath, grams);
+    }
+  }
+
+  clear(): void {
+    this.pending.forEach(handle => window.clearTimeout(handle));
+    this.pending.clear();
+    this.contexts.clear();
+    this.documents.clear();
+  }
+
+  complete(prefix: string): string {
+    const line = prefix.slice(prefix.lastIndexOf("\n") + 1);
+    const tokens = tokenize(line);
+    const history = tokens.map(token => token.toLowerCase());
+    let output = "";
+
+    if (ENDS_IN_WORD.test(line) && tokens.length > 0) {
+      const partial = history.pop() as string;
+      if (partial.length < MIN_PARTIAL_CHARS) {
+        return "";
+      }
+      const word =
+        this.predict(
+          history,
+          candidate => {
+            const lower = candidate.toLowerCase();
+            return lower.length > partial.length && lower.startsWith(partial);
+          },
+          false
+        ) ?? this.predict([], candidate => candidate.toLowerCase() === partial, false);
+      if (!word) {
+        return "";
+      }
+      output = word.slice(partial.length);
+      history.push(word.toLowerCase());
+    }
+
+    const needsSpace = output.length > 0 || (line.length > 0 && !/\s$/.test(line));
+    for (let i = 0; i < MAX_WORDS; i++) {
+      const next = this.predict(history, () => true, true);
+      if (!next) {
+        break;
+      }
+      const punctuation = !ENDS_IN_WORD.test(next);
+      if (punctuation) {
+        output += next;
+      } else {
+        output += output.length > 0 || needsSpace ? ` ${next}` : next;
+      }
+      history.push(next.toLowerCase());
+      if (SENTENCE_END.test(next)) {
+        break;
+      }
+    }
+    return output;
+  }
+
+  private predict(
+    history: string[],
+    accept: (candidate: string) => boolean,
+    confident: boolean
+  ): string | null {
+    const keys: string[] = [];
+    if (history.length >= 2) {
+      keys.push(`${history[history.length - 2]} ${history[history.length - 1]}`);
+    }
+    if (history.length >= 1) {
+      keys.push(history[history.length - 1]);
+    }
+    if (!confident) {
+      keys.push("");
+    }
+    for (const key of keys) {
+      const nexts = this.contexts.get(key);
+      if (!nexts) {
+        continue;
+      }
+      let best: string | null = null;
+      let bestCount = 0;
+      let total = 0;
+      for (const [candidate, count] of nexts) {
+        total += count;
+        if (count > bestCount && accept(candidate)) {
+          best = candidate;
+          bestCount = count;
+        }
+      }
+      if (!confident) {
+        if (best) {
+          return best;
+        }
+        continue;
+      }
+      if (best && bestCount >= MIN_NEXT_COUNT && bestCount / total >= MIN_NEXT_SHARE) {
+        return best;
+      }
+      // Only back off to a shorter context when this one has too little evidence.
+      if (total >= MIN_NEXT_COUNT) {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  private setDocument(path: string, content: string): void {
+    this.remove(path);
+    const grams = countGrams(content);
+    this.documents.set(path, grams);
+    this.apply(grams, 1);
+  }
+
+  private apply(grams: Map<string, number>, sign: 1 | -1): void {
+    for (const [key, count] of grams) {
+      const separator = key.indexOf(SEPARATOR);
+      const context = key.slice(0, separator);
+      const next = key.slice(separator + 1);
+      let nexts = this.contexts.get(context);
+      if (!nexts) {
+        if (sign < 0) {
+          continue;
+        }
+        nexts = new Map();
+        this.contexts.set(context, nexts);
+      }
+      const updated = (nexts.get(next) ?? 0) + sign * count;
+      if (updated > 0) {
+        nexts.set(next, updated);
+      } else {
+        nexts.delete(next);
+        if (nexts.size === 0) {
+          this.contexts.delete(context);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { App, Modal, TFile } from "obsidian";
+import { globToRegExp, hasAnyTag } from "./profiles";
+
+export interface PrivacyRules {
+  excludedFolders: string[];
+  excludedTags: string[];
+  excludedProperties: string[];
+  redactSecrets: boolean;
+  redactEmails: boolean;
+  redactPhones: boolean;
+  redactPatterns: string[];
+}
+
+export interface SentPrompt {
+  time: number;
+  url: string;
+  model: string;
+  prompt: string;
+  suffix?: string;
+  redactions: number;
+}
+
+const SECRET_PATTERNS = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  /\b(?:sk|pk|rk)-[A-Za-z0-9_-]{20,}/g,
+  /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{30,}/g,
+  /\bgithub_pat_[A-Za-z0-9_]{20,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+];
+// Keeps the name, as in `api_key: [REDACTED KEY]`, so the model still sees a well-formed line.
+const SECRET_ASSIGNMENT =
+  /\b((?:api[_-]?key|access[_-]?token|auth[_-]?token|token|secret|password|passwd)["']?\s*[:=]\s*["']?)([^\s"']{8,})/gi;
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+const PHONE = /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}(?!\w)/g;
+const DATE = /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{4})$/;
+const MIN_PHONE_DIGITS = 8;
+
+const SECRET_TOKEN = "[REDACTED KEY]";
+const EMAIL_TOKEN = "[REDACTED EMAIL]";
+const PHONE_TOKEN = "[REDACTED PHONE]";
+const CUSTOM_TOKEN = "[REDACTED]";
+
+function isTruthy(value: unknown): boolean {
+  if (typeof value === "string") {
+    return ["true", "yes", "on", "1"].includes(value.trim().toLowerCase());
+  }
+  return value === true || value === 1;
+}
+
+export function isExcludedNote(app: App, file: TFile | null, rules: PrivacyRules): boolean {
+  if (!file) {
+    return false;
+  }
+  if (rules.excludedFolders.some(glob => glob.trim() && globToRegExp(glob).test(file.path))) {
+    return true;
+  }
+  if (hasAnyTag(app, file, rules.excludedTags)) {
+    return true;
+  }
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  return !!frontmatter && rules.excludedProperties.some(key => isTruthy(frontmatter[key.trim()]));
+}
+
+// Lines wrapped in slashes are regular expressions; other lines match literally, ignoring case.
+function compilePatterns(entries: string[]): RegExp[] {
+  const patterns: RegExp[] = [];
+  for (const entry of entries) {
+    const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+    try {
+      if (regex) {
+        patterns.push(new RegExp(regex[1], regex[2].includes("g") ? regex[2] : `${regex[2]}g`));
+      } else if (entry.trim()) {
+        patterns.push(new RegExp(entry.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "gi"));
+      }
+    } catch (error) {
+      console.warn("[Smart Compose]", "invalid redaction pattern", entry);
+    }
+  }
+  return patterns;
+}
+
+let compiledPatterns: { source: string[]; patterns: RegExp[] } | null = null;
+
+export function redactText(text: string, rules: PrivacyRules): { text: string; count: number } {
+  let count = 0;
+  const replace = (input: string, pattern: RegExp, token: string): string =>
+    input.replace(pattern, () => {
+      count++;
+      return token;
+    });
+
+  let result = text;
+  if (rules.redactSecrets) {
+    for (const pattern of SECRET_PATTERNS) {
+      result = replace(result, pattern, SECRET_TOKEN);
+    }
+    result = result.replace(SECRET_ASSIGNMENT, (match, name: string, value: string) => {
+      if (value === SECRET_TOKEN || value.startsWith("[REDACTED")) {
+        return match;
+      }
+      count++;
+      return `${name}${SECRET_TOKEN}`;
+    });
+  }
+  if (rules.redactEmails) {
+    result = replace(result, EMAIL, EMAIL_TOKEN);
+  }
+  if (rules.redactPhones) {
+    result = result.replace(PHONE, match => {
+      if ((match.match(/\d/g) ?? []).length < MIN_PHONE_DIGITS || DATE.test(match)) {
+        return match;
+      }
+      count++;
+      return PHONE_TOKEN;
+    });
+  }
+  if (compiledPatterns?.source !== rules.redactPatterns) {
+    compiledPatterns = { source: rules.redactPatterns, patterns: compilePatterns(rules.redactPatterns) };
+  }
+  for (const pattern of compiledPatterns.patterns) {
+    result = result.replace(pattern, match => {
+      if (!match) {
+        return match;
+      }
+      count++;
+      return CUSTOM_TOKEN;
+    });
+  }
+  return { text: result, count };
+}
+
+export class SentPromptModal extends Modal {
+  private readonly sent: SentPrompt;
+
+  constructor(app: App, sent: SentPrompt) {
+    super(app);
+    this.sent = sent;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.setTitle("Last sent prompt");
+    const redactions =
+      this.sent.redactions === 0
+        ? "nothing redacted"
+        : `${this.sent.redactions} ${this.sent.redactions === 1 ? "redaction" : "redactions"}`;
+    contentEl.createEl("p", {
+      text: `${new Date(this.sent.time).toLocaleTimeString()} · ${this.sent.model} · ${this.sent.url} · ${redactions}`
+    });
+    const preview = contentEl.createDiv({ cls: "smart-compose-prompt-preview" });
+    preview.createEl("pre", { text: this.sent.prompt });
+    if (this.sent.suffix) {
+      contentEl.createEl("p", { text: "Suffix" });
+      contentEl
+        .createDiv({ cls: "smart-compose-prompt-preview" })
+        .createEl("pre", { text: this.sent.suffix });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
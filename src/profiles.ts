@@ -0,0 +1,128 @@
+import { App, TFile, getAllTags } from "obsidian";
+import { BackendKind } from "./backends";
+
+export const PROFILE_FRONTMATTER_KEY = "smart-compose";
+
+export interface ProfileOverrides {
+  backend?: BackendKind;
+  serverUrl?: string;
+  model?: string;
+  contextTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  repeatPenalty?: number;
+  promptPreset?: string;
+}
+
+export interface CompletionProfile {
+  name: string;
+  folders: string[];
+  tags: string[];
+  enabled: boolean;
+  overrides: ProfileOverrides;
+}
+
+export interface ProfileMatch {
+  profile: CompletionProfile | null;
+  enabled: boolean | null;
+}
+
+export function createProfile(name: string): CompletionProfile {
+  return {
+    name,
+    folders: [],
+    tags: [],
+    enabled: true,
+    overrides: {}
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const trimmed = glob.trim().replace(/^\/+/, "");
+  if (!/[*?]/.test(trimmed)) {
+    const folder = escapeRegExp(trimmed.replace(/\/+$/, ""));
+    return new RegExp(`^${folder}(/|$)`);
+  }
+  let source = "";
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i];
+    if (ch === "*" && trimmed[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (trimmed[i + 1] === "/") {
+        i++;
+        source += "/?";
+      }
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+// Nested tags count, so `work` also matches `#work/client`.
+export function hasAnyTag(app: App, file: TFile, tags: string[]): boolean {
+  const cache = app.metadataCache.getFileCache(file);
+  const fileTags = (cache ? getAllTags(cache) ?? [] : []).map(normalizeTag);
+  return tags.some(tag => {
+    const wanted = normalizeTag(tag);
+    return (
+      wanted.length > 0 &&
+      fileTags.some(fileTag => fileTag === wanted || fileTag.startsWith(`${wanted}/`))
+    );
+  });
+}
+
+function readFrontmatterSelector(app: App, file: TFile): unknown {
+  const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+  return frontmatter ? frontmatter[PROFILE_FRONTMATTER_KEY] : undefined;
+}
+
+export function matchProfile(
+  app: App,
+  file: TFile | null,
+  profiles: CompletionProfile[]
+): ProfileMatch {
+  if (!file) {
+    return { profile: null, enabled: null };
+  }
+
+  const selector = readFrontmatterSelector(app, file);
+  if (selector === false || selector === "off") {
+    return { profile: null, enabled: false };
+  }
+  if (typeof selector === "string" && selector !== "on") {
+    const named = profiles.find(profile => profile.name === selector.trim());
+    if (named) {
+      return { profile: named, enabled: named.enabled };
+    }
+  }
+  const forcedOn = selector === true || selector === "on";
+
+  const byFolder = profiles.find(profile =>
+    profile.folders.some(glob => glob.trim() && globToRegExp(glob).test(file.path))
+  );
+  if (byFolder) {
+    return { profile: byFolder, enabled: forcedOn || byFolder.enabled };
+  }
+
+  const byTag = profiles.find(profile => hasAnyTag(app, file, profile.tags));
+  if (byTag) {
+    return { profile: byTag, enabled: forcedOn || byTag.enabled };
+  }
+
+  return { profile: null, enabled: forcedOn ? true : null };
+}
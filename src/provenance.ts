@@ -0,0 +1,297 @@
+import { App, SuggestModal, editorInfoField } from "obsidian";
+import { Decoration, EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { Annotation, StateEffect, StateField, Text, Transaction } from "@codemirror/state";
+
+export interface ProvenanceSpan {
+  from: number;
+  to: number;
+  model: string;
+  acceptedAt: number;
+}
+
+export interface StoredSpan extends ProvenanceSpan {
+  text: string;
+}
+
+export type ProvenanceData = Record<string, StoredSpan[]>;
+
+const SAVE_DELAY_MS = 2000;
+const EXCERPT_CHARS = 80;
+
+// Marks a transaction whose inserted text came from the model; the value is the model name.
+export const aiInsertion = Annotation.define<string>();
+
+export const setProvenanceEffect = StateEffect.define<ProvenanceSpan[]>();
+
+function mergeSpans(spans: ProvenanceSpan[]): ProvenanceSpan[] {
+  const sorted = [...spans].sort((a, b) => a.from - b.from);
+  const merged: ProvenanceSpan[] = [];
+  for (const span of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.model === span.model && span.from <= last.to) {
+      merged[merged.length - 1] = {
+        ...last,
+        to: Math.max(last.to, span.to),
+        acceptedAt: Math.min(last.acceptedAt, span.acceptedAt)
+      };
+    } else {
+      merged.push(span);
+    }
+  }
+  return merged;
+}
+
+// Text typed inside a span splits it, so only characters the model wrote stay marked.
+function mapSpans(spans: ProvenanceSpan[], tr: Transaction): ProvenanceSpan[] {
+  const inserted: [number, number][] = [];
+  tr.changes.iterChanges((_fromA, _toA, fromB, toB) => {
+    if (toB > fromB) {
+      inserted.push([fromB, toB]);
+    }
+  });
+  const mapped: ProvenanceSpan[] = [];
+  for (const span of spans) {
+    const to = tr.changes.mapPos(span.to, -1);
+    let start = tr.changes.mapPos(span.from, 1);
+    for (const [from, end] of inserted) {
+      if (end <= start || from >= to) {
+        continue;
+      }
+      if (from > start) {
+        mapped.push({ ...span, from: start, to: from });
+      }
+      start = Math.max(start, end);
+    }
+    if (start < to) {
+      mapped.push({ ...span, from: start, to });
+    }
+  }
+  return mapped;
+}
+
+export const provenanceField = StateField.define<ProvenanceSpan[]>({
+  create: () => [],
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setProvenanceEffect)) {
+        return effect.value;
+      }
+    }
+    if (!tr.docChanged) {
+      return value;
+    }
+    const model = tr.annotation(aiInsertion);
+    if (model === undefined) {
+      return value.length === 0 ? value : mapSpans(value, tr);
+    }
+    const added: ProvenanceSpan[] = [];
+    const acceptedAt = Date.now();
+    tr.changes.iterChanges((_fromA, _toA, fromB, toB) => {
+      if (toB > fromB) {
+        added.push({ from: fromB, to: toB, model, acceptedAt });
+      }
+    });
+    const mapped = value.map(span => ({
+      ...span,
+      from: tr.changes.mapPos(span.from, 1),
+      to: tr.changes.mapPos(span.to, -1)
+    }));
+    return mergeSpans([...mapped.filter(span => span.from < span.to), ...added]);
+  }
+});
+
+const aiTextMark = Decoration.mark({ class: "smart-compose-ai-text" });
+
+// Always present; the underline only shows while the plugin sets its body class.
+const provenanceDecorations = EditorView.decorations.compute([provenanceField], state =>
+  Decoration.set(state.field(provenanceField).map(span => aiTextMark.range(span.from, span.to)))
+);
+
+function locate(doc: Text, span: StoredSpan): ProvenanceSpan | null {
+  const { text, ...rest } = span;
+  if (span.to <= doc.length && doc.sliceString(span.from, span.to) === text) {
+    return rest;
+  }
+  // The note changed outside the editor; the closest copy of the text is taken to be the same one.
+  const content = doc.toString();
+  let best = -1;
+  for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+    if (best === -1 || Math.abs(index - span.from) < Math.abs(best - span.from)) {
+      best = index;
+    }
+  }
+  return best === -1 ? null : { ...rest, from: best, to: best + text.length };
+}
+
+export class ProvenanceStore {
+  private data: ProvenanceData;
+  private saveHandle: number | null;
+  private readonly persist: (data: ProvenanceData) => Promise<void>;
+
+  constructor(data: ProvenanceData, persist: (data: ProvenanceData) => Promise<void>) {
+    this.data = data;
+    this.saveHandle = null;
+    this.persist = persist;
+  }
+
+  load(path: string, doc: Text): ProvenanceSpan[] {
+    const spans: ProvenanceSpan[] = [];
+    for (const stored of this.data[path] ?? []) {
+      const span = locate(doc, stored);
+      if (span) {
+        spans.push(span);
+      }
+    }
+    return mergeSpans(spans);
+  }
+
+  update(path: string, spans: ProvenanceSpan[], doc: Text): void {
+    if (spans.length === 0 && !this.data[path]) {
+      return;
+    }
+    if (spans.length === 0) {
+      delete this.data[path];
+    } else {
+      this.data[path] = spans.map(span => ({ ...span, text: doc.sliceString(span.from, span.to) }));
+    }
+    this.scheduleSave();
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    if (this.data[oldPath]) {
+      this.data[newPath] = this.data[oldPath];
+      delete this.data[oldPath];
+      this.scheduleSave();
+    }
+  }
+
+  remove(path: string): void {
+    if (this.data[path]) {
+      delete this.data[path];
+      this.scheduleSave();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveHandle !== null) {
+      window.clearTimeout(this.saveHandle);
+      this.saveHandle = null;
+    }
+    await this.save();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveHandle !== null) {
+      return;
+    }
+    this.saveHandle = window.setTimeout(() => {
+      this.saveHandle = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.persist(this.data);
+    } catch (error) {
+      console.warn("[Smart Compose]", "could not save AI-written text records", error);
+    }
+  }
+}
+
+function replacesWholeDocument(tr: Transaction): boolean {
+  let whole = false;
+  tr.changes.iterChanges((fromA, toA) => {
+    whole = whole || (fromA === 0 && toA === tr.startState.doc.length && toA > 0);
+  });
+  return whole;
+}
+
+export function createProvenanceExtension(store: ProvenanceStore) {
+  const syncPlugin = ViewPlugin.fromClass(
+    class {
+      private view: EditorView;
+      private path: string | null;
+      private loading: boolean;
+
+      constructor(view: EditorView) {
+        this.view = view;
+        this.path = null;
+        this.loading = false;
+        this.reload();
+      }
+
+      update(update: ViewUpdate): void {
+        const path = this.currentPath();
+        // Opening or reloading a note replaces the whole document, which collapses every span.
+        if (path !== this.path || update.transactions.some(replacesWholeDocument)) {
+          this.reload();
+          return;
+        }
+        const spans = update.state.field(provenanceField);
+        if (path && !this.loading && spans !== update.startState.field(provenanceField)) {
+          store.update(path, spans, update.state.doc);
+        }
+      }
+
+      private currentPath(): string | null {
+        return this.view.state.field(editorInfoField, false)?.file?.path ?? null;
+      }
+
+      private reload(): void {
+        this.path = this.currentPath();
+        const path = this.path;
+        this.loading = true;
+        window.setTimeout(() => {
+          if (path !== this.currentPath()) {
+            return;
+          }
+          this.loading = false;
+          const spans = path ? store.load(path, this.view.state.doc) : [];
+          this.view.dispatch({ effects: setProvenanceEffect.of(spans) });
+        }, 0);
+      }
+    }
+  );
+
+  return [provenanceField, provenanceDecorations, syncPlugin];
+}
+
+export class ProvenanceModal extends SuggestModal<ProvenanceSpan> {
+  private readonly view: EditorView;
+
+  constructor(app: App, view: EditorView) {
+    super(app);
+    this.view = view;
+    this.setPlaceholder("AI-written text in this note");
+    this.emptyStateText = "No AI-written text in this note.";
+  }
+
+  getSuggestions(query: string): ProvenanceSpan[] {
+    const lower = query.trim().toLowerCase();
+    const { doc } = this.view.state;
+    return (this.view.state.field(provenanceField, false) ?? []).filter(span =>
+      doc.sliceString(span.from, span.to).toLowerCase().includes(lower)
+    );
+  }
+
+  renderSuggestion(span: ProvenanceSpan, el: HTMLElement): void {
+    const doc = this.view.state.doc;
+    const text = doc.sliceString(span.from, span.to).replace(/\s+/g, " ").trim();
+    el.createDiv({
+      text: text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text
+    });
+    el.createEl("small", {
+      cls: "smart-compose-ai-text-meta",
+      text: `Line ${doc.lineAt(span.from).number} · ${span.model} · ${new Date(span.acceptedAt).toLocaleString()}`
+    });
+  }
+
+  onChooseSuggestion(span: ProvenanceSpan): void {
+    this.view.dispatch({
+      selection: { anchor: span.from, head: span.to },
+      effects: EditorView.scrollIntoView(span.from, { y: "center" })
+    });
+    this.view.focus();
+  }
+}
@@ -0,0 +1,217 @@
+import { App, TFile, getAllTags } from "obsidian";
+
+export interface RelatedNote {
+  fileName: string;
+  snippet: string;
+}
+
+const SNIPPET_CHARS = 400;
+const MIN_SNIPPET_CHARS = 80;
+const MENTIONED_SCORE = 4;
+const OUTGOING_SCORE = 2;
+const BACKLINK_SCORE = 1.5;
+const SHARED_TAG_SCORE = 0.5;
+
+function stripFrontmatter(content: string): string {
+  const match = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/);
+  return match ? content.slice(match[0].length) : content;
+}
+
+function truncateAtBoundary(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+  const cut = text.slice(0, limit);
+  const sentenceEnd = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf(".\n"));
+  if (sentenceEnd > limit / 2) {
+    return cut.slice(0, sentenceEnd + 1);
+  }
+  const wordEnd = cut.lastIndexOf(" ");
+  return wordEnd > 0 ? cut.slice(0, wordEnd) : cut;
+}
+
+interface LinkTagIndex {
+  backlinks: Map<string, Set<string>>;
+  notesByTag: Map<string, Set<string>>;
+  // What each note added, so an update can take it out again.
+  outgoing: Map<string, string[]>;
+  tags: Map<string, string[]>;
+}
+
+function addToIndex(map: Map<string, Set<string>>, key: string, path: string): void {
+  const paths = map.get(key);
+  if (paths) {
+    paths.add(path);
+  } else {
+    map.set(key, new Set([path]));
+  }
+}
+
+function removeFromIndex(map: Map<string, Set<string>>, key: string, path: string): void {
+  const paths = map.get(key);
+  if (paths?.delete(path) && paths.size === 0) {
+    map.delete(key);
+  }
+}
+
+export class VaultContextProvider {
+  private readonly app: App;
+  private readonly snippets: Map<string, string>;
+  private readonly isExcluded: (file: TFile) => boolean;
+  private index: LinkTagIndex | null;
+
+  constructor(app: App, isExcluded: (file: TFile) => boolean) {
+    this.app = app;
+    this.snippets = new Map();
+    this.isExcluded = isExcluded;
+    this.index = null;
+  }
+
+  invalidate(path: string): void {
+    this.snippets.delete(path);
+  }
+
+  // Called when a note's links are resolved or its metadata changes; a no-op until the index is built.
+  updateNote(file: TFile): void {
+    if (!this.index) {
+      return;
+    }
+    this.removeFromIndex(this.index, file.path);
+    this.addToIndex(this.index, file);
+  }
+
+  removeNote(path: string): void {
+    this.snippets.delete(path);
+    if (this.index) {
+      this.removeFromIndex(this.index, path);
+    }
+  }
+
+  clear(): void {
+    this.snippets.clear();
+    this.index = null;
+  }
+
+  async collect(file: TFile, prefix: string, budget: number): Promise<RelatedNote[]> {
+    const ranked = this.rank(file, prefix);
+    const notes: RelatedNote[] = [];
+    let remaining = budget;
+    for (const candidate of ranked) {
+      if (remaining < MIN_SNIPPET_CHARS) {
+        break;
+      }
+      if (this.isExcluded(candidate)) {
+        continue;
+      }
+      const snippet = await this.getSnippet(candidate);
+      if (!snippet) {
+        continue;
+      }
+      const trimmed = truncateAtBoundary(snippet, Math.min(SNIPPET_CHARS, remaining));
+      notes.push({ fileName: candidate.name, snippet: trimmed });
+      remaining -= trimmed.length;
+    }
+    return notes;
+  }
+
+  private rank(file: TFile, prefix: string): TFile[] {
+    const { metadataCache, vault } = this.app;
+    const scores = new Map<string, number>();
+    const add = (path: string, score: number) => {
+      if (path === file.path) {
+        return;
+      }
+      scores.set(path, (scores.get(path) ?? 0) + score);
+    };
+
+    const linkPattern = /\[\[([^\]|#^]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = linkPattern.exec(prefix)) !== null) {
+      const target = metadataCache.getFirstLinkpathDest(match[1].trim(), file.path);
+      if (target) {
+        add(target.path, MENTIONED_SCORE);
+      }
+    }
+
+    const outgoing = metadataCache.resolvedLinks[file.path] ?? {};
+    for (const path of Object.keys(outgoing)) {
+      add(path, OUTGOING_SCORE);
+    }
+
+    const index = this.getIndex();
+    for (const source of index.backlinks.get(file.path) ?? []) {
+      add(source, BACKLINK_SCORE);
+    }
+
+    const ownCache = metadataCache.getFileCache(file);
+    for (const tag of new Set(ownCache ? getAllTags(ownCache) ?? [] : [])) {
+      for (const path of index.notesByTag.get(tag) ?? []) {
+        add(path, SHARED_TAG_SCORE);
+      }
+    }
+
+    const files: TFile[] = [];
+    for (const [path] of [...scores.entries()].sort((a, b) => b[1] - a[1])) {
+      const target = vault.getAbstractFileByPath(path);
+      if (target instanceof TFile && target.extension === "md") {
+        files.push(target);
+      }
+    }
+    return files;
+  }
+
+  private getIndex(): LinkTagIndex {
+    if (!this.index) {
+      const index: LinkTagIndex = {
+        backlinks: new Map(),
+        notesByTag: new Map(),
+        outgoing: new Map(),
+        tags: new Map()
+      };
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        this.addToIndex(index, file);
+      }
+      this.index = index;
+    }
+    return this.index;
+  }
+
+  private addToIndex(index: LinkTagIndex, file: TFile): void {
+    const targets = Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {});
+    for (const target of targets) {
+      addToIndex(index.backlinks, target, file.path);
+    }
+    index.outgoing.set(file.path, targets);
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = [...new Set(cache ? getAllTags(cache) ?? [] : [])];
+    for (const tag of tags) {
+      addToIndex(index.notesByTag, tag, file.path);
+    }
+    index.tags.set(file.path, tags);
+  }
+
+  private removeFromIndex(index: LinkTagIndex, path: string): void {
+    for (const target of index.outgoing.get(path) ?? []) {
+      removeFromIndex(index.backlinks, target, path);
+    }
+    for (const tag of index.tags.get(path) ?? []) {
+      removeFromIndex(index.notesByTag, tag, path);
+    }
+    index.outgoing.delete(path);
+    index.tags.delete(path);
+  }
+
+  private async getSnippet(file: TFile): Promise<string> {
+    const cached = this.snippets.get(file.path);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const content = await this.app.vault.cachedRead(file);
+    const snippet = stripFrontmatter(content)
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+      .slice(0, SNIPPET_CHARS * 2);
+    this.snippets.set(file.path, snippet);
+    return snippet;
+  }
+}
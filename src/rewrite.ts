@@ -0,0 +1,204 @@
+import { App, SuggestModal } from "obsidian";
+import { Decoration, EditorView, WidgetType } from "@codemirror/view";
+import { StateEffect, StateField } from "@codemirror/state";
+import { stripThinking } from "./filters";
+
+export interface RewriteState {
+  from: number;
+  to: number;
+  replacement: string;
+  done: boolean;
+  model: string;
+}
+
+export interface RewriteRequest {
+  from: number;
+  to: number;
+  instruction: string;
+}
+
+export const REWRITE_INSTRUCTIONS = [
+  "Rephrase this text",
+  "Make this text shorter",
+  "Fix grammar and spelling",
+  "Make this text more formal",
+  "Make this text simpler and clearer"
+];
+
+export const REWRITE_STOPS = ["</rewrite>"];
+
+export const startRewriteEffect = StateEffect.define<RewriteRequest>();
+export const updateRewriteEffect = StateEffect.define<{
+  replacement: string;
+  done: boolean;
+  model: string;
+}>();
+export const clearRewriteEffect = StateEffect.define<null>();
+
+// The rewrite stays anchored to the selected range; editing inside it throws the rewrite away.
+export const rewriteField = StateField.define<RewriteState | null>({
+  create: () => null,
+  update(value, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(startRewriteEffect)) {
+        return {
+          from: effect.value.from,
+          to: effect.value.to,
+          replacement: "",
+          done: false,
+          model: ""
+        };
+      }
+      if (effect.is(clearRewriteEffect)) {
+        return null;
+      }
+      if (effect.is(updateRewriteEffect) && value) {
+        return { ...value, ...effect.value };
+      }
+    }
+    if (!value || !tr.docChanged) {
+      return value;
+    }
+    let touched = false;
+    tr.changes.iterChangedRanges((fromA, toA) => {
+      if (fromA < value.to && toA > value.from) {
+        touched = true;
+      }
+    });
+    if (touched) {
+      return null;
+    }
+    return {
+      ...value,
+      from: tr.changes.mapPos(value.from, 1),
+      to: tr.changes.mapPos(value.to, -1)
+    };
+  }
+});
+
+class RewriteWidget extends WidgetType {
+  private readonly text: string;
+  private readonly done: boolean;
+
+  constructor(text: string, done: boolean) {
+    super();
+    this.text = text;
+    this.done = done;
+  }
+
+  eq(other: RewriteWidget): boolean {
+    return this.text === other.text && this.done === other.done;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement("span");
+    span.className = "ollama-ghost-text smart-compose-rewrite-new";
+    if (!this.done) {
+      span.addClass("is-streaming");
+    }
+    span.textContent = this.text || "…";
+    return span;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+const removedMark = Decoration.mark({ class: "smart-compose-rewrite-old" });
+
+export const rewriteDecorations = EditorView.decorations.compute([rewriteField], state => {
+  const value = state.field(rewriteField);
+  if (!value) {
+    return Decoration.none;
+  }
+  const widget = Decoration.widget({
+    widget: new RewriteWidget(value.replacement, value.done),
+    side: 1
+  });
+  if (value.from === value.to) {
+    return Decoration.set([widget.range(value.to)]);
+  }
+  return Decoration.set([removedMark.range(value.from, value.to), widget.range(value.to)]);
+});
+
+export function buildRewritePrompt(
+  fileName: string,
+  before: string,
+  selection: string,
+  after: string,
+  instruction: string
+): string {
+  return [
+    `Note: ${fileName}`,
+    "",
+    "Text before:",
+    before,
+    "",
+    "Text after:",
+    after,
+    "",
+    `Task: ${instruction.trim().replace(/[.!]+$/, "")}. Rewrite only the text inside <original>, ` +
+      "keeping its language, meaning and Markdown formatting. " +
+      "Reply with the rewritten text inside <rewrite> tags and nothing else.",
+    "",
+    `<original>${selection.trim()}</original>`,
+    "<rewrite>"
+  ].join("\n");
+}
+
+// Keeps the whitespace around the selection so accepting doesn't glue words together.
+export function cleanRewrite(text: string, original: string): string {
+  let body = stripThinking(text);
+  // Chat models repeat the opening tag, sometimes after a preamble.
+  const open = body.indexOf("<rewrite>");
+  if (open !== -1) {
+    body = body.slice(open + "<rewrite>".length);
+  }
+  const close = body.indexOf(REWRITE_STOPS[0]);
+  if (close !== -1) {
+    body = body.slice(0, close);
+  } else {
+    // The closing tag may still be arriving token by token.
+    const tag = body.lastIndexOf("<");
+    if (tag !== -1 && REWRITE_STOPS[0].startsWith(body.slice(tag))) {
+      body = body.slice(0, tag);
+    }
+  }
+  body = body.trim();
+  if (!body) {
+    return "";
+  }
+  const leading = original.match(/^\s*/)?.[0] ?? "";
+  const trailing = original.slice(leading.length).match(/\s*$/)?.[0] ?? "";
+  return `${leading}${body}${trailing}`;
+}
+
+export class RewriteInstructionModal extends SuggestModal<string> {
+  private readonly onChoose: (instruction: string) => void;
+
+  constructor(app: App, onChoose: (instruction: string) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose an instruction or type your own");
+  }
+
+  getSuggestions(query: string): string[] {
+    const lower = query.trim().toLowerCase();
+    const presets = REWRITE_INSTRUCTIONS.filter(instruction =>
+      instruction.toLowerCase().includes(lower)
+    );
+    if (lower && !presets.some(instruction => instruction.toLowerCase() === lower)) {
+      return [query.trim(), ...presets];
+    }
+    return presets;
+  }
+
+  renderSuggestion(instruction: string, el: HTMLElement): void {
+    el.setText(instruction);
+  }
+
+  onChooseSuggestion(instruction: string): void {
+    this.onChoose(instruction);
+  }
+}
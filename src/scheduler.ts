@@ -0,0 +1,68 @@
+const SAMPLE_WINDOW = 20;
+const MIN_SAMPLES = 5;
+const REFERENCE_LATENCY_MS = 400;
+const MIN_DEBOUNCE_MS = 75;
+const MAX_DEBOUNCE_MS = 1500;
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 10000;
+const TIMEOUT_GROWTH = 1.5;
+const WARM_UP_INTERVAL_MS = 60000;
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+// Latency is tracked per server and model, since switching profiles can switch to a much slower model.
+export class AdaptiveScheduler {
+  private readonly latencies: Map<string, number[]>;
+  private readonly lastActivity: Map<string, number>;
+
+  constructor() {
+    this.latencies = new Map();
+    this.lastActivity = new Map();
+  }
+
+  recordLatency(key: string, ms: number): void {
+    const samples = this.latencies.get(key) ?? [];
+    samples.push(ms);
+    if (samples.length > SAMPLE_WINDOW) {
+      samples.shift();
+    }
+    this.latencies.set(key, samples);
+    this.markActive(key);
+  }
+
+  // A timed-out request only says the real latency was longer, so the sample grows the timeout.
+  recordTimeout(key: string, timeoutMs: number): void {
+    this.recordLatency(key, timeoutMs * TIMEOUT_GROWTH);
+  }
+
+  debounceMs(key: string, baseMs: number): number {
+    const samples = this.latencies.get(key);
+    if (!samples || samples.length < MIN_SAMPLES) {
+      return baseMs;
+    }
+    const scaled = (baseMs * percentile(samples, 50)) / REFERENCE_LATENCY_MS;
+    return Math.round(
+      Math.min(MAX_DEBOUNCE_MS, Math.max(MIN_DEBOUNCE_MS, baseMs / 2, Math.min(baseMs * 3, scaled)))
+    );
+  }
+
+  timeoutMs(key: string, defaultMs: number): number {
+    const samples = this.latencies.get(key);
+    if (!samples || samples.length < MIN_SAMPLES) {
+      return defaultMs;
+    }
+    return Math.round(Math.min(MAX_TIMEOUT_MS, Math.max(MIN_TIMEOUT_MS, percentile(samples, 90) * 2)));
+  }
+
+  needsWarmUp(key: string): boolean {
+    return Date.now() - (this.lastActivity.get(key) ?? 0) >= WARM_UP_INTERVAL_MS;
+  }
+
+  markActive(key: string): void {
+    this.lastActivity.set(key, Date.now());
+  }
+}
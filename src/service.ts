@@ -0,0 +1,169 @@
+import { EditorView } from "@codemirror/view";
+import {
+  CompletionBackend,
+  CompletionError,
+  CompletionRequest,
+  CompletionResult,
+  StreamOptions,
+  streamCompletion
+} from "./backends";
+import { CompletionCache } from "./cache";
+
+export interface EditorSubscriber {
+  view: EditorView;
+  handleKey: (event: KeyboardEvent) => void;
+}
+
+interface QueuedRequest {
+  start: () => void;
+  cancel: () => void;
+}
+
+// One per plugin: every editor pane and window sends its requests through the same queue, so
+// split panes and popout windows can't pile requests onto a single local model.
+export class CompletionService {
+  readonly cache: CompletionCache;
+  private readonly concurrency: () => number;
+  private readonly queue: QueuedRequest[];
+  private readonly subscribers: Set<EditorSubscriber>;
+  private readonly keyListeners: Map<Window, (event: KeyboardEvent) => void>;
+  private running: number;
+
+  constructor(cacheSize: number, concurrency: () => number) {
+    this.cache = new CompletionCache(cacheSize);
+    this.concurrency = concurrency;
+    this.queue = [];
+    this.subscribers = new Set();
+    this.keyListeners = new Map();
+    this.running = 0;
+  }
+
+  // Waits for a free slot, then streams. A request aborted while it waits leaves the queue, and
+  // the time it waits counts toward its timeout.
+  async stream(
+    backend: CompletionBackend,
+    request: CompletionRequest,
+    options: StreamOptions
+  ): Promise<CompletionResult> {
+    const queuedAt = Date.now();
+    await this.acquire(options.signal, options.timeoutMs);
+    try {
+      const timeoutMs = Math.max(1, options.timeoutMs - (Date.now() - queuedAt));
+      return await streamCompletion(backend, request, { ...options, timeoutMs });
+    } finally {
+      this.running--;
+      this.startQueued();
+    }
+  }
+
+  subscribe(subscriber: EditorSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    const win = this.windowOf(subscriber.view);
+    if (!this.keyListeners.has(win)) {
+      const listener = (event: KeyboardEvent) => this.handleKeydown(event);
+      win.addEventListener("keydown", listener, true);
+      this.keyListeners.set(win, listener);
+    }
+    return () => {
+      this.subscribers.delete(subscriber);
+      if (![...this.subscribers].some(other => this.windowOf(other.view) === win)) {
+        this.removeKeyListener(win);
+      }
+    };
+  }
+
+  destroy(): void {
+    for (const request of this.queue.splice(0)) {
+      request.cancel();
+    }
+    for (const win of [...this.keyListeners.keys()]) {
+      this.removeKeyListener(win);
+    }
+    this.subscribers.clear();
+    this.cache.clear();
+  }
+
+  private acquire(signal: AbortSignal, timeoutMs: number): Promise<void> {
+    if (signal.aborted) {
+      return Promise.reject(new CompletionError("aborted", "request aborted"));
+    }
+    if (this.running < Math.max(1, this.concurrency())) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        signal.removeEventListener("abort", onAbort);
+        window.clearTimeout(timeoutId);
+      };
+      const queued: QueuedRequest = {
+        start: () => {
+          settle();
+          this.running++;
+          resolve();
+        },
+        cancel: () => {
+          settle();
+          reject(new CompletionError("aborted", "request aborted"));
+        }
+      };
+      const leaveQueue = (): boolean => {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        return index !== -1;
+      };
+      const onAbort = () => {
+        if (leaveQueue()) {
+          queued.cancel();
+        }
+      };
+      const timeoutId = window.setTimeout(() => {
+        if (leaveQueue()) {
+          settle();
+          reject(new CompletionError("timeout", `request timed out after ${timeoutMs} ms in the queue`));
+        }
+      }, timeoutMs);
+      signal.addEventListener("abort", onAbort);
+      this.queue.push(queued);
+    });
+  }
+
+  private startQueued(): void {
+    while (this.queue.length > 0 && this.running < Math.max(1, this.concurrency())) {
+      this.queue.shift()?.start();
+    }
+  }
+
+  // Only the focused editor that the key event comes from may act on it.
+  private handleKeydown(event: KeyboardEvent): void {
+    // Popout windows have their own Node class, so the target isn't checked with instanceof.
+    const target = event.target as Node | null;
+    if (!target) {
+      return;
+    }
+    const path = typeof event.composedPath === "function" ? event.composedPath() : [];
+    for (const subscriber of this.subscribers) {
+      const { view } = subscriber;
+      const inEditor =
+        view.dom.contains(target) || path.includes(view.dom) || path.includes(view.contentDOM);
+      if (inEditor && view.hasFocus) {
+        subscriber.handleKey(event);
+        return;
+      }
+    }
+  }
+
+  private windowOf(view: EditorView): Window {
+    return view.dom.ownerDocument.defaultView ?? window;
+  }
+
+  private removeKeyListener(win: Window): void {
+    const listener = this.keyListeners.get(win);
+    if (listener) {
+      win.removeEventListener("keydown", listener, true);
+      this.keyListeners.delete(win);
+    }
+  }
+}
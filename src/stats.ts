@@ -0,0 +1,193 @@
+export type UsageEventType =
+  | "request"
+  | "first-token"
+  | "complete"
+  | "shown"
+  | "accepted"
+  | "partial-accept"
+  | "dismissed"
+  | "aborted"
+  | "failed";
+
+export interface UsageEvent {
+  time: number;
+  type: UsageEventType;
+  model: string;
+  ms?: number;
+}
+
+export interface ModelSummary {
+  model: string;
+  requests: number;
+  shown: number;
+  accepted: number;
+  partial: number;
+  dismissed: number;
+  aborted: number;
+  failed: number;
+  acceptanceRate: number | null;
+  firstTokenP50: number | null;
+  firstTokenP95: number | null;
+  totalP50: number | null;
+  totalP95: number | null;
+}
+
+export interface DailySummary {
+  day: string;
+  shown: number;
+  accepted: number;
+  totalP50: number | null;
+}
+
+const MAX_EVENTS = 20000;
+const SAVE_DELAY_MS = 5000;
+const TREND_DAYS = 14;
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+function dayKey(time: number): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export class UsageStats {
+  private events: UsageEvent[];
+  private saveHandle: number | null;
+  private readonly persist: (events: UsageEvent[]) => Promise<void>;
+  private readonly listeners: Set<() => void>;
+
+  constructor(events: UsageEvent[], persist: (events: UsageEvent[]) => Promise<void>) {
+    this.events = events.slice(-MAX_EVENTS);
+    this.saveHandle = null;
+    this.persist = persist;
+    this.listeners = new Set();
+  }
+
+  record(type: UsageEventType, model: string, ms?: number): void {
+    const event: UsageEvent = { time: Date.now(), type, model };
+    if (ms !== undefined) {
+      event.ms = Math.round(ms);
+    }
+    this.events.push(event);
+    if (this.events.length > MAX_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_EVENTS);
+    }
+    this.scheduleSave();
+    this.listeners.forEach(listener => listener());
+  }
+
+  getEvents(): UsageEvent[] {
+    return this.events;
+  }
+
+  async reset(): Promise<void> {
+    this.events = [];
+    await this.flush();
+    this.listeners.forEach(listener => listener());
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveHandle !== null) {
+      window.clearTimeout(this.saveHandle);
+      this.saveHandle = null;
+    }
+    await this.save();
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  summarizeByModel(): ModelSummary[] {
+    const byModel = new Map<string, UsageEvent[]>();
+    for (const event of this.events) {
+      const list = byModel.get(event.model) ?? [];
+      list.push(event);
+      byModel.set(event.model, list);
+    }
+    const summaries: ModelSummary[] = [];
+    for (const [model, events] of byModel) {
+      const count = (type: UsageEventType) => events.filter(event => event.type === type).length;
+      const latencies = (type: UsageEventType) =>
+        events
+          .filter(event => event.type === type && typeof event.ms === "number")
+          .map(event => event.ms as number);
+      const shown = count("shown");
+      const accepted = count("accepted");
+      const partial = count("partial-accept");
+      const firstToken = latencies("first-token");
+      const total = latencies("complete");
+      summaries.push({
+        model,
+        requests: count("request"),
+        shown,
+        accepted,
+        partial,
+        dismissed: count("dismissed"),
+        aborted: count("aborted"),
+        failed: count("failed"),
+        acceptanceRate: shown > 0 ? accepted / shown : null,
+        firstTokenP50: percentile(firstToken, 50),
+        firstTokenP95: percentile(firstToken, 95),
+        totalP50: percentile(total, 50),
+        totalP95: percentile(total, 95)
+      });
+    }
+    return summaries.sort((a, b) => b.requests - a.requests);
+  }
+
+  summarizeByDay(): DailySummary[] {
+    const days = new Map<string, { shown: number; accepted: number; totals: number[] }>();
+    const now = Date.now();
+    for (let offset = TREND_DAYS - 1; offset >= 0; offset--) {
+      days.set(dayKey(now - offset * 86_400_000), { shown: 0, accepted: 0, totals: [] });
+    }
+    for (const event of this.events) {
+      const bucket = days.get(dayKey(event.time));
+      if (!bucket) {
+        continue;
+      }
+      if (event.type === "shown") {
+        bucket.shown++;
+      } else if (event.type === "accepted") {
+        bucket.accepted++;
+      } else if (event.type === "complete" && typeof event.ms === "number") {
+        bucket.totals.push(event.ms);
+      }
+    }
+    return [...days.entries()].map(([day, bucket]) => ({
+      day,
+      shown: bucket.shown,
+      accepted: bucket.accepted,
+      totalP50: percentile(bucket.totals, 50)
+    }));
+  }
+
+  private scheduleSave(): void {
+    if (this.saveHandle !== null) {
+      return;
+    }
+    this.saveHandle = window.setTimeout(() => {
+      this.saveHandle = null;
+      void this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await this.persist(this.events);
+    } catch (error) {
+      console.warn("[Smart Compose]", "could not save usage statistics", error);
+    }
+  }
+}
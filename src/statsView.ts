@@ -0,0 +1,139 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import { UsageStats } from "./stats";
+
+export const USAGE_VIEW_TYPE = "smart-compose-usage";
+
+function formatMs(value: number | null): string {
+  return value === null ? "–" : `${value} ms`;
+}
+
+function formatRate(value: number | null): string {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+export class UsageView extends ItemView {
+  private readonly stats: UsageStats;
+  private unsubscribe: (() => void) | null;
+  private renderHandle: number | null;
+
+  constructor(leaf: WorkspaceLeaf, stats: UsageStats) {
+    super(leaf);
+    this.stats = stats;
+    this.unsubscribe = null;
+    this.renderHandle = null;
+  }
+
+  getViewType(): string {
+    return USAGE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Smart Compose usage";
+  }
+
+  getIcon(): string {
+    return "bar-chart-2";
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.stats.onChange(() => this.scheduleRender());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.renderHandle !== null) {
+      window.clearTimeout(this.renderHandle);
+      this.renderHandle = null;
+    }
+  }
+
+  private scheduleRender(): void {
+    if (this.renderHandle !== null) {
+      return;
+    }
+    this.renderHandle = window.setTimeout(() => {
+      this.renderHandle = null;
+      this.render();
+    }, 1000);
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("smart-compose-usage");
+    contentEl.createEl("h4", { text: "Smart Compose usage" });
+
+    const models = this.stats.summarizeByModel();
+    if (models.length === 0) {
+      contentEl.createEl("p", { text: "No suggestions recorded yet." });
+      return;
+    }
+
+    const modelTable = contentEl.createEl("table");
+    const modelHead = modelTable.createEl("thead").createEl("tr");
+    for (const label of [
+      "Model",
+      "Requests",
+      "Shown",
+      "Accepted",
+      "Partial",
+      "Dismissed",
+      "Aborted",
+      "Failed",
+      "Acceptance",
+      "First token p50",
+      "First token p95",
+      "Total p50",
+      "Total p95"
+    ]) {
+      modelHead.createEl("th", { text: label });
+    }
+    const modelBody = modelTable.createEl("tbody");
+    for (const summary of models) {
+      const row = modelBody.createEl("tr");
+      for (const value of [
+        summary.model,
+        String(summary.requests),
+        String(summary.shown),
+        String(summary.accepted),
+        String(summary.partial),
+        String(summary.dismissed),
+        String(summary.aborted),
+        String(summary.failed),
+        formatRate(summary.acceptanceRate),
+        formatMs(summary.firstTokenP50),
+        formatMs(summary.firstTokenP95),
+        formatMs(summary.totalP50),
+        formatMs(summary.totalP95)
+      ]) {
+        row.createEl("td", { text: value });
+      }
+    }
+
+    contentEl.createEl("h5", { text: "Last 14 days" });
+    const days = this.stats.summarizeByDay();
+    const maxShown = Math.max(1, ...days.map(day => day.shown));
+    const trendTable = contentEl.createEl("table");
+    const trendHead = trendTable.createEl("thead").createEl("tr");
+    for (const label of ["Day", "Shown / accepted", "Acceptance", "Total p50"]) {
+      trendHead.createEl("th", { text: label });
+    }
+    const trendBody = trendTable.createEl("tbody");
+    for (const day of days) {
+      const row = trendBody.createEl("tr");
+      row.createEl("td", { text: day.day });
+      const barCell = row.createEl("td");
+      const bar = barCell.createDiv({ cls: "smart-compose-usage-bar" });
+      bar.setCssStyles({ width: `${(day.shown / maxShown) * 100}%` });
+      const accepted = bar.createDiv({ cls: "smart-compose-usage-bar-accepted" });
+      accepted.setCssStyles({
+        width: day.shown > 0 ? `${(day.accepted / day.shown) * 100}%` : "0"
+      });
+      barCell.setAttr("title", `${day.shown} shown, ${day.accepted} accepted`);
+      row.createEl("td", { text: formatRate(day.shown > 0 ? day.accepted / day.shown : null) });
+      row.createEl("td", { text: formatMs(day.totalP50) });
+    }
+  }
+}
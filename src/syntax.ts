@@ -0,0 +1,209 @@
+import { ensureSyntaxTree } from "@codemirror/language";
+import { EditorState, Text } from "@codemirror/state";
+
+export type SyntaxCategory =
+  | "codeBlock"
+  | "inlineCode"
+  | "math"
+  | "comment"
+  | "html"
+  | "table"
+  | "url"
+  | "callout";
+
+export type SyntaxRules = Record<SyntaxCategory, boolean>;
+
+export const SYNTAX_CATEGORY_LABELS: Record<SyntaxCategory, string> = {
+  codeBlock: "Code blocks",
+  inlineCode: "Inline code",
+  math: "Math",
+  comment: "Comments",
+  html: "HTML",
+  table: "Tables",
+  url: "Link URLs",
+  callout: "Callout markers"
+};
+
+export const DEFAULT_SYNTAX_RULES: SyntaxRules = {
+  codeBlock: false,
+  inlineCode: false,
+  math: false,
+  comment: false,
+  html: false,
+  table: true,
+  url: false,
+  callout: false
+};
+
+export interface SyntaxEligibility {
+  allowed: boolean;
+  model: string | null;
+}
+
+const TREE_TIMEOUT_MS = 20;
+
+// Node names cover both Obsidian's HyperMD token classes and @lezer/markdown nodes.
+const BLOCK_PATTERNS: Partial<Record<SyntaxCategory, RegExp>> = {
+  codeBlock: /hmd-codeblock|formatting-code-block|FencedCode|CodeBlock/,
+  math: /math/i,
+  comment: /comment/i,
+  html: /hmd-html|HTMLBlock/,
+  table: /table/i
+};
+const INLINE_PATTERNS: Partial<Record<SyntaxCategory, RegExp>> = {
+  inlineCode: /inline-code|InlineCode/,
+  html: /(^|_)tag(_|$)|HTMLTag/,
+  url: /(^|_)url(_|$)|hmd-barelink|URL/
+};
+const FRONTMATTER_PATTERN = /frontmatter/i;
+const CALLOUT_MARKER_PATTERN = /^\s*(?:>\s*)+\[![^\]]*(?:\][+-]?)?$/;
+
+interface Classification {
+  frontmatter: boolean;
+  categories: Set<SyntaxCategory>;
+}
+
+interface NamedNode {
+  name: string;
+  parent: NamedNode | null;
+}
+
+function collectNames(state: EditorState, pos: number): { inner: string[]; line: string[] } | null {
+  const tree = ensureSyntaxTree(state, pos, TREE_TIMEOUT_MS);
+  if (!tree) {
+    return null;
+  }
+  const lineStart = state.doc.lineAt(pos).from;
+  return {
+    inner: ancestorNames(tree.resolveInner(pos, -1)),
+    line: lineStart < pos ? ancestorNames(tree.resolveInner(lineStart, 1)) : []
+  };
+}
+
+function ancestorNames(node: NamedNode | null): string[] {
+  const names: string[] = [];
+  for (let current = node; current; current = current.parent) {
+    names.push(current.name);
+  }
+  return names;
+}
+
+function classifyFromTree(state: EditorState, pos: number): Classification | null {
+  const names = collectNames(state, pos);
+  if (!names) {
+    return null;
+  }
+  const blockNames = [...names.inner, ...names.line];
+  if (blockNames.some(name => FRONTMATTER_PATTERN.test(name))) {
+    return { frontmatter: true, categories: new Set() };
+  }
+  const categories = new Set<SyntaxCategory>();
+  for (const [category, pattern] of Object.entries(BLOCK_PATTERNS) as [SyntaxCategory, RegExp][]) {
+    if (blockNames.some(name => pattern.test(name))) {
+      categories.add(category);
+    }
+  }
+  for (const [category, pattern] of Object.entries(INLINE_PATTERNS) as [SyntaxCategory, RegExp][]) {
+    if (names.inner.some(name => pattern.test(name))) {
+      categories.add(category);
+    }
+  }
+  return { frontmatter: false, categories };
+}
+
+// Only used when the syntax tree isn't ready in time.
+function isInFrontmatter(doc: Text, pos: number): boolean {
+  if (doc.lines < 2) {
+    return false;
+  }
+  const firstLine = doc.line(1).text.trim();
+  if (firstLine !== "---") {
+    return false;
+  }
+  const posLine = doc.lineAt(pos).number;
+  for (let lineNo = 2; lineNo <= doc.lines; lineNo++) {
+    const lineText = doc.line(lineNo).text.trim();
+    if (lineText === "---") {
+      return posLine <= lineNo;
+    }
+  }
+  return true;
+}
+
+function isInFencedCodeBlock(doc: Text, pos: number): boolean {
+  const posLine = doc.lineAt(pos).number;
+  let inFence = false;
+  for (let lineNo = 1; lineNo <= posLine; lineNo++) {
+    const lineText = doc.line(lineNo).text.trim();
+    if (lineText.startsWith("```") || lineText.startsWith("~~~")) {
+      inFence = !inFence;
+    }
+  }
+  return inFence;
+}
+
+function isInInlineCode(doc: Text, pos: number): boolean {
+  const line = doc.lineAt(pos);
+  const offset = pos - line.from;
+  const before = line.text.slice(0, offset);
+  let backticks = 0;
+  for (let i = 0; i < before.length; i++) {
+    if (before[i] === "`") {
+      backticks++;
+    }
+  }
+  return backticks % 2 === 1;
+}
+
+function classifyByScanning(doc: Text, pos: number): Classification {
+  if (isInFrontmatter(doc, pos)) {
+    return { frontmatter: true, categories: new Set() };
+  }
+  const categories = new Set<SyntaxCategory>();
+  if (isInFencedCodeBlock(doc, pos)) {
+    categories.add("codeBlock");
+  }
+  if (isInInlineCode(doc, pos)) {
+    categories.add("inlineCode");
+  }
+  return { frontmatter: false, categories };
+}
+
+function findFenceLanguage(doc: Text, pos: number): string | null {
+  for (let lineNo = doc.lineAt(pos).number; lineNo >= 1; lineNo--) {
+    const match = doc.line(lineNo).text.match(/^\s*(?:`{3,}|~{3,})\s*([\w+#.-]*)/);
+    if (match) {
+      return match[1] ? match[1].toLowerCase() : null;
+    }
+  }
+  return null;
+}
+
+export function checkSyntaxEligibility(
+  state: EditorState,
+  pos: number,
+  rules: SyntaxRules,
+  codeModels: Record<string, string>
+): SyntaxEligibility {
+  const { frontmatter, categories } =
+    classifyFromTree(state, pos) ?? classifyByScanning(state.doc, pos);
+  if (frontmatter) {
+    return { allowed: false, model: null };
+  }
+  const line = state.doc.lineAt(pos);
+  if (CALLOUT_MARKER_PATTERN.test(line.text.slice(0, pos - line.from))) {
+    categories.add("callout");
+  }
+
+  if (categories.has("codeBlock")) {
+    const language = findFenceLanguage(state.doc, pos);
+    const model = language ? codeModels[language] ?? null : null;
+    return { allowed: model !== null || rules.codeBlock, model };
+  }
+  for (const category of categories) {
+    if (!rules[category]) {
+      return { allowed: false, model: null };
+    }
+  }
+  return { allowed: true, model: null };
+}
@@ -0,0 +1,189 @@
+import { Text } from "@codemirror/state";
+import { RelatedNote } from "./retrieval";
+
+export const CUSTOM_PRESET = "custom";
+
+export interface PromptPreset {
+  label: string;
+  template: string;
+}
+
+export const PROMPT_PRESETS: Record<string, PromptPreset> = {
+  yaml: {
+    label: "YAML header",
+    template:
+      "{{related}}---\nfilename: {{filename|yaml}}\n{{#frontmatter}}{{frontmatter}}\n{{/frontmatter}}---\n{{prefix}}"
+  },
+  title: {
+    label: "Title line",
+    template: "{{related}}# {{title}}\n\n{{prefix}}"
+  },
+  document: {
+    label: "Document header",
+    template:
+      "{{related}}Document: {{path}}\nDate: {{date}}\n{{#tags}}Tags: {{tags}}\n{{/tags}}{{#heading_path}}Section: {{heading_path}}\n{{/heading_path}}\n{{prefix}}"
+  },
+  notes: {
+    label: "Personal notes preamble",
+    template:
+      "{{related}}The following are personal notes about \"{{title}}\", written on {{date}}.\n\n{{prefix}}"
+  }
+};
+
+export const DEFAULT_PRESET = "yaml";
+
+export const PROMPT_VARIABLES = [
+  "filename",
+  "title",
+  "path",
+  "frontmatter",
+  "heading_path",
+  "tags",
+  "prefix",
+  "suffix",
+  "date",
+  "related"
+] as const;
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+export type PromptVariables = Record<PromptVariable, string>;
+
+export interface PromptTemplateChoice {
+  preset: string;
+  template: string;
+}
+
+export interface ModelPromptTemplate extends PromptTemplateChoice {
+  model: string;
+}
+
+export interface NoteInfo {
+  fileName: string;
+  path: string;
+  tags: string[];
+  language: string | null;
+}
+
+export const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+export function getFrontmatterContent(doc: Text): string {
+  if (doc.lines < 2) {
+    return "";
+  }
+  const firstLine = doc.line(1).text.trim();
+  if (firstLine !== "---") {
+    return "";
+  }
+  for (let lineNo = 2; lineNo <= doc.lines; lineNo++) {
+    const lineText = doc.line(lineNo).text.trim();
+    if (lineText === "---") {
+      const start = doc.line(2).from;
+      const end = doc.line(lineNo).from;
+      return doc.sliceString(start, end).trimEnd();
+    }
+  }
+  const start = doc.line(2).from;
+  return doc.sliceString(start, doc.length).trimEnd();
+}
+
+// Where the body starts after a closed frontmatter block, or 0 without one.
+export function getFrontmatterEnd(doc: Text): number {
+  if (doc.lines < 2 || doc.line(1).text.trim() !== "---") {
+    return 0;
+  }
+  for (let lineNo = 2; lineNo <= doc.lines; lineNo++) {
+    const line = doc.line(lineNo);
+    if (line.text.trim() === "---") {
+      return Math.min(doc.length, line.to + 1);
+    }
+  }
+  return 0;
+}
+
+export function getHeadingPath(doc: Text, pos: number): string[] {
+  const headings: string[] = [];
+  let level = 7;
+  for (let lineNo = doc.lineAt(pos).number - 1; lineNo >= 1 && level > 1; lineNo--) {
+    const match = doc.line(lineNo).text.match(HEADING_PATTERN);
+    if (match && match[1].length < level) {
+      level = match[1].length;
+      headings.unshift(match[2]);
+    }
+  }
+  return headings;
+}
+
+function escapeYamlString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function formatRelatedNotes(related: RelatedNote[]): string {
+  return related
+    .map(note => `---\nfilename: ${escapeYamlString(note.fileName)}\n---\n${note.snippet}\n\n`)
+    .join("");
+}
+
+export function collectPromptVariables(
+  doc: Text,
+  pos: number,
+  prefix: string,
+  suffix: string,
+  note: NoteInfo,
+  related: RelatedNote[]
+): PromptVariables {
+  const fileName = note.fileName.trim() || "Untitled";
+  return {
+    filename: fileName,
+    title: fileName.replace(/\.md$/i, ""),
+    path: note.path,
+    frontmatter: getFrontmatterContent(doc),
+    heading_path: getHeadingPath(doc, pos).join(" > "),
+    tags: note.tags.join(", "),
+    prefix,
+    suffix,
+    date: formatDate(new Date()),
+    related: formatRelatedNotes(related)
+  };
+}
+
+export function resolveTemplate(choice: PromptTemplateChoice): string {
+  if (choice.preset === CUSTOM_PRESET && choice.template.trim()) {
+    return choice.template;
+  }
+  return (PROMPT_PRESETS[choice.preset] ?? PROMPT_PRESETS[DEFAULT_PRESET]).template;
+}
+
+function isVariable(name: string): name is PromptVariable {
+  return (PROMPT_VARIABLES as readonly string[]).includes(name);
+}
+
+// Supports {{name}}, {{name|yaml}} and {{#name}}...{{/name}} sections that render only when
+// the variable is non-empty. Unknown names are left untouched.
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  const withSections = template.replace(
+    /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (whole, name: string, inner: string) => {
+      if (!isVariable(name)) {
+        return whole;
+      }
+      return variables[name].trim() ? inner : "";
+    }
+  );
+  return withSections.replace(
+    /\{\{\s*(\w+)\s*(?:\|\s*(\w+)\s*)?\}\}/g,
+    (whole, name: string, filter?: string) => {
+      if (!isVariable(name)) {
+        return whole;
+      }
+      const value = variables[name];
+      return filter === "yaml" ? escapeYamlString(value) : value;
+    }
+  );
+}
@@ -0,0 +1,136 @@
+import { Text } from "@codemirror/state";
+
+export const DEFAULT_LANGUAGE_KEY = "*";
+
+export const DEFAULT_TRIGGER_PUNCTUATION: Record<string, string> = {
+  [DEFAULT_LANGUAGE_KEY]: ".,",
+  ja: "。、！？」",
+  zh: "。，、；：！？"
+};
+
+const WORD_CHAR = /^[\p{L}\p{N}\p{M}_]$/u;
+const SPACE_CHAR = /^\p{Zs}$/u;
+const WHITESPACE_CHAR = /^\s$/u;
+const SPACELESS_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const HAN = /\p{Script=Han}/u;
+const HANGUL = /\p{Script=Hangul}/u;
+const THAI = /\p{Script=Thai}/u;
+
+export function isWordChar(ch: string): boolean {
+  return WORD_CHAR.test(ch);
+}
+
+// Horizontal spaces only, including no-break and ideographic spaces; not tabs or newlines.
+export function isSpaceChar(ch: string): boolean {
+  return SPACE_CHAR.test(ch);
+}
+
+export function isWhitespace(ch: string): boolean {
+  return WHITESPACE_CHAR.test(ch);
+}
+
+export function isSpacelessScript(ch: string): boolean {
+  return SPACELESS_SCRIPT.test(ch);
+}
+
+// Whole code points, so letters outside the Basic Multilingual Plane are not split in half.
+export function charBefore(doc: Text, pos: number): string {
+  const pair = doc.sliceString(Math.max(0, pos - 2), pos);
+  return pair.length === 2 && /^[\uD800-\uDBFF][\uDC00-\uDFFF]$/.test(pair) ? pair : pair.slice(-1);
+}
+
+export function charAfter(doc: Text, pos: number): string {
+  const pair = doc.sliceString(pos, Math.min(doc.length, pos + 2));
+  return /^[\uD800-\uDBFF][\uDC00-\uDFFF]$/.test(pair) ? pair : pair.slice(0, 1);
+}
+
+// Frontmatter wins; otherwise only scripts that identify a language are used.
+export function resolveLanguage(declared: string | null, text: string): string | null {
+  if (declared) {
+    return declared.trim().toLowerCase().split(/[-_]/)[0] || null;
+  }
+  if (KANA.test(text)) {
+    return "ja";
+  }
+  if (HAN.test(text)) {
+    return "zh";
+  }
+  if (HANGUL.test(text)) {
+    return "ko";
+  }
+  if (THAI.test(text)) {
+    return "th";
+  }
+  return null;
+}
+
+export function triggerPunctuationFor(
+  triggers: Record<string, string>,
+  language: string | null
+): string {
+  return (language ? triggers[language] : undefined) ?? triggers[DEFAULT_LANGUAGE_KEY] ?? "";
+}
+
+interface WordSegment {
+  segment: string;
+  index: number;
+  isWordLike?: boolean;
+}
+
+interface WordSegmenter {
+  segment(text: string): Iterable<WordSegment>;
+}
+
+type SegmenterConstructor = new (
+  locale?: string,
+  options?: { granularity: "word" }
+) => WordSegmenter;
+
+const segmenters = new Map<string, WordSegmenter | null>();
+
+function getSegmenter(language: string | null): WordSegmenter | null {
+  const key = language ?? "";
+  if (!segmenters.has(key)) {
+    const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+    let segmenter: WordSegmenter | null = null;
+    try {
+      segmenter = Segmenter ? new Segmenter(language ?? undefined, { granularity: "word" }) : null;
+    } catch (error) {
+      segmenter = Segmenter ? new Segmenter(undefined, { granularity: "word" }) : null;
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenters.get(key) ?? null;
+}
+
+// The text up to the end of its first word, using dictionary word boundaries for scripts
+// written without spaces.
+export function firstWord(text: string, language: string | null): string {
+  const spaced = text.match(/^\s*\S+/)?.[0] ?? text;
+  const segmenter = getSegmenter(language);
+  if (!segmenter || !SPACELESS_SCRIPT.test(spaced)) {
+    return spaced;
+  }
+  for (const { segment, index, isWordLike } of segmenter.segment(text)) {
+    if (isWordLike) {
+      return text.slice(0, index + segment.length);
+    }
+  }
+  return spaced;
+}
+
+// Where the word the text ends with starts, or -1 when it doesn't end in a word or is one word.
+export function lastWordStart(text: string, language: string | null): number {
+  const segmenter = getSegmenter(language);
+  if (!segmenter || !SPACELESS_SCRIPT.test(text)) {
+    const match = text.match(/^([\s\S]*\s)\S+$/);
+    return match ? match[1].length : -1;
+  }
+  let last: WordSegment | null = null;
+  for (const segment of segmenter.segment(text)) {
+    last = segment;
+  }
+  return last && last.isWordLike && last.index > 0 ? last.index : -1;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { CompletionCache } from "../src/cache";
+
+const PREFIX = "The quick brown fox jumps over the la";
+
+describe("CompletionCache", () => {
+  it("returns an exact match", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: null }, ["zy dog"]);
+    expect(cache.get({ scope: "a", prefix: PREFIX, suffix: null })).toEqual(["zy dog"]);
+  });
+
+  it("returns the rest of a candidate the user has typed into", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: " end" }, ["zy dog", "te"]);
+    expect(cache.get({ scope: "a", prefix: `${PREFIX}zy`, suffix: " end" })).toEqual([" dog"]);
+  });
+
+  it("drops candidates that the typed text no longer matches", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: null }, ["zy dog"]);
+    expect(cache.get({ scope: "a", prefix: `${PREFIX}st`, suffix: null })).toBeNull();
+  });
+
+  it("does not serve a candidate that was typed out completely", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: null }, ["zy"]);
+    expect(cache.get({ scope: "a", prefix: `${PREFIX}zy`, suffix: null })).toBeNull();
+  });
+
+  it("keeps scopes and suffixes apart", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: " end" }, ["zy dog"]);
+    expect(cache.get({ scope: "b", prefix: PREFIX, suffix: " end" })).toBeNull();
+    expect(cache.get({ scope: "a", prefix: PREFIX, suffix: " other" })).toBeNull();
+    expect(cache.get({ scope: "a", prefix: `${PREFIX}z`, suffix: null })).toBeNull();
+  });
+
+  it("evicts the least recently used entry", () => {
+    const cache = new CompletionCache(2);
+    cache.set({ scope: "a", prefix: "first prefix", suffix: null }, ["one"]);
+    cache.set({ scope: "a", prefix: "second prefix", suffix: null }, ["two"]);
+    cache.get({ scope: "a", prefix: "first prefix", suffix: null });
+    cache.set({ scope: "a", prefix: "third prefix", suffix: null }, ["three"]);
+    expect(cache.get({ scope: "a", prefix: "second prefix", suffix: null })).toBeNull();
+    expect(cache.get({ scope: "a", prefix: "first prefix", suffix: null })).toEqual(["one"]);
+  });
+
+  it("ignores empty candidate lists", () => {
+    const cache = new CompletionCache(10);
+    cache.set({ scope: "a", prefix: PREFIX, suffix: null }, []);
+    expect(cache.get({ scope: "a", prefix: PREFIX, suffix: null })).toBeNull();
+  });
+});
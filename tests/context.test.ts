@@ -0,0 +1,94 @@
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import { buildContext, estimateTokens, structureField } from "../src/context";
+
+const NOTE = [
+  "---",
+  "title: Trip",
+  "---",
+  "# Trip",
+  "Intro sentence. More intro text here.",
+  "## Day one",
+  "We walked a long way. Then we rested for a while.",
+  "```",
+  "# not a heading",
+  "```",
+  "## Day two",
+  "First sentence of day two. Second sentence of day two. Third"
+].join("\n");
+
+function state(doc: string): EditorState {
+  return EditorState.create({ doc, extensions: [structureField] });
+}
+
+describe("estimateTokens", () => {
+  it("counts word pieces, punctuation and CJK characters", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("hello")).toBe(2);
+    expect(estimateTokens("a, b.")).toBe(4);
+    expect(estimateTokens("日本語")).toBe(3);
+  });
+
+  it("never decreases as text grows", () => {
+    let previous = 0;
+    for (let length = 1; length <= NOTE.length; length++) {
+      const tokens = estimateTokens(NOTE.slice(NOTE.length - length));
+      expect(tokens).toBeGreaterThanOrEqual(previous);
+      previous = tokens;
+    }
+  });
+});
+
+describe("buildContext", () => {
+  it("returns everything after the frontmatter when it fits", () => {
+    const doc = state(NOTE);
+    expect(buildContext(doc, NOTE.length, 1000)).toBe(NOTE.slice(NOTE.indexOf("# Trip")));
+  });
+
+  it("keeps the headings above the cursor and shortens earlier sections", () => {
+    const doc = state(NOTE);
+    expect(buildContext(doc, NOTE.length, 30)).toBe(
+      "# Trip\nIntro sentence.\n\n## Day two\nFirst sentence of day two. Second sentence of day two. Third"
+    );
+    expect(buildContext(doc, NOTE.length, 40)).toBe(
+      "# Trip\nIntro sentence.\n\n## Day one\nWe walked a long way.\n\n" +
+        "## Day two\nFirst sentence of day two. Second sentence of day two. Third"
+    );
+  });
+
+  it("cuts the current section at a sentence boundary", () => {
+    const doc = state(NOTE);
+    expect(buildContext(doc, NOTE.length, 20)).toBe("# Trip\n\n## Day two\n\nSecond sentence of day two. Third");
+  });
+
+  it("ignores headings inside code fences", () => {
+    const pos = NOTE.indexOf("## Day two") - 1;
+    expect(buildContext(state(NOTE), pos, 1000)).toBe(NOTE.slice(NOTE.indexOf("# Trip"), pos));
+    expect(buildContext(state(NOTE), pos, 25)).toBe(
+      "# Trip\n\n## Day one\n\nwe rested for a while.\n```\n# not a heading\n```"
+    );
+  });
+
+  it("works without the structure field", () => {
+    const plain = EditorState.create({ doc: NOTE });
+    expect(buildContext(plain, NOTE.length, 30)).toBe(buildContext(state(NOTE), NOTE.length, 30));
+  });
+});
+
+describe("structureField", () => {
+  it("tracks headings and fences through edits like a fresh scan", () => {
+    let current = state(NOTE);
+    const edits = [
+      { from: 0, insert: "```\n" },
+      { from: NOTE.indexOf("## Day one"), to: NOTE.indexOf("## Day one") + 3, insert: "" },
+      { from: NOTE.length, insert: "\n### Day three\n~~~\ncode\n~~~" },
+      { from: 0, to: 4, insert: "# New title\n" },
+      { from: NOTE.indexOf("```"), to: NOTE.indexOf("## Day two"), insert: "" }
+    ];
+    for (const change of edits) {
+      current = current.update({ changes: change }).state;
+      const fresh = state(current.doc.toString());
+      expect(current.field(structureField)).toEqual(fresh.field(structureField));
+    }
+  });
+});
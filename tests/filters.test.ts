@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTERS, FilterContext, filterSuggestion, stripThinking } from "../src/filters";
+
+function context(overrides: Partial<FilterContext> = {}): FilterContext {
+  return { prefix: "Some text", language: null, final: true, truncated: false, blocklist: [], ...overrides };
+}
+
+function filter(text: string, overrides: Partial<FilterContext> = {}): string {
+  return filterSuggestion(text, context(overrides), DEFAULT_FILTERS);
+}
+
+describe("stripThinking", () => {
+  it("removes closed and still open reasoning blocks", () => {
+    expect(stripThinking("<think>plan</think>\n answer")).toBe(" answer");
+    expect(stripThinking(" answer<think>plan")).toBe(" answer");
+    expect(stripThinking("<thi")).toBe("");
+  });
+});
+
+describe("filterSuggestion", () => {
+  it("keeps an ordinary continuation", () => {
+    expect(filter(" and more text.")).toBe(" and more text.");
+  });
+
+  it("strips an echo of the text before the cursor", () => {
+    expect(filter(" brown fox jumps", { prefix: "The quick brown fox" })).toBe(" jumps");
+  });
+
+  it("drops a sentence copied from the note", () => {
+    expect(filter(" This sentence is already written.", { prefix: "This sentence is already written. Next" })).toBe("");
+  });
+
+  it("cuts a phrase that repeats", () => {
+    expect(filter(" and then and then and then")).toBe(" and then");
+  });
+
+  it("keeps emphatic single-word repeats", () => {
+    expect(filter(" very very very good")).toBe(" very very very good");
+    expect(filter(" very very very very")).toBe(" very");
+  });
+
+  it("does not treat numbers or word halves as loops", () => {
+    expect(filter(" 1.1.1.1 is a resolver")).toBe(" 1.1.1.1 is a resolver");
+    expect(filter(" hahaha")).toBe(" hahaha");
+  });
+
+  it("cuts at an unclosed link or bracket", () => {
+    expect(filter(" (see [[note")).toBe(" (see");
+    expect(filter(" text and [[link")).toBe(" text and");
+  });
+
+  it("keeps a suggestion that opens with a bracket", () => {
+    expect(filter(" (see note")).toBe(" (see note");
+  });
+
+  it("lets a suggestion close bold text opened on the cursor line", () => {
+    expect(filter("word** done", { prefix: "Some **bold" })).toBe("word** done");
+  });
+
+  it("holds back a partial last word while streaming", () => {
+    expect(filter(" and more te", { final: false })).toBe(" and more");
+    expect(filter(" and more te", { final: true, truncated: true })).toBe(" and more");
+  });
+
+  it("cuts at blocked words and patterns", () => {
+    expect(filter(" it was damn good", { blocklist: ["damn"] })).toBe(" it was");
+    expect(filter(" call 555-1234 now", { blocklist: ["/\\d{3}-\\d{4}/"] })).toBe(" call");
+  });
+
+  it("drops suggestions that are only punctuation", () => {
+    expect(filter(" ...")).toBe("");
+  });
+
+  it("skips filters that are turned off", () => {
+    const enabled = { ...DEFAULT_FILTERS, loops: false };
+    expect(filterSuggestion(" and then and then and then", context(), enabled)).toBe(" and then and then and then");
+  });
+});
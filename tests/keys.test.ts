@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { matchesAnyKey, matchesKey, parseKeySpec } from "../src/keys";
+
+function keyEvent(key: string, init: Partial<KeyboardEvent> = {}): KeyboardEvent {
+  return { key, code: "", ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...init } as KeyboardEvent;
+}
+
+describe("parseKeySpec", () => {
+  it("parses plain keys and aliases", () => {
+    expect(parseKeySpec("Tab")).toEqual({ key: "Tab", mod: false, alt: false, shift: false });
+    expect(parseKeySpec(" esc ")).toEqual({ key: "Escape", mod: false, alt: false, shift: false });
+    expect(parseKeySpec("Right")?.key).toBe("ArrowRight");
+    expect(parseKeySpec("Space")?.key).toBe(" ");
+  });
+
+  it("parses modifiers in any case", () => {
+    expect(parseKeySpec("Mod-Enter")).toEqual({ key: "Enter", mod: true, alt: false, shift: false });
+    expect(parseKeySpec("ctrl-shift-l")).toEqual({ key: "l", mod: true, alt: false, shift: true });
+    expect(parseKeySpec("Cmd-Option-Right")).toEqual({ key: "ArrowRight", mod: true, alt: true, shift: false });
+  });
+
+  it("rejects empty keys and unknown modifiers", () => {
+    expect(parseKeySpec("")).toBeNull();
+    expect(parseKeySpec("Mod-")).toBeNull();
+    expect(parseKeySpec("Hyper-a")).toBeNull();
+  });
+});
+
+describe("matchesKey", () => {
+  it("requires the same modifiers", () => {
+    const spec = parseKeySpec("Mod-Enter");
+    expect(spec).not.toBeNull();
+    if (!spec) {
+      return;
+    }
+    expect(matchesKey(keyEvent("Enter", { ctrlKey: true }), spec)).toBe(true);
+    expect(matchesKey(keyEvent("Enter", { metaKey: true }), spec)).toBe(true);
+    expect(matchesKey(keyEvent("Enter"), spec)).toBe(false);
+    expect(matchesKey(keyEvent("Enter", { ctrlKey: true, shiftKey: true }), spec)).toBe(false);
+  });
+
+  it("falls back to the physical key for letters", () => {
+    const spec = parseKeySpec("Alt-l");
+    expect(spec && matchesKey(keyEvent("¬", { altKey: true, code: "KeyL" }), spec)).toBe(true);
+  });
+
+  it("matches any of several keys and skips invalid ones", () => {
+    expect(matchesAnyKey(keyEvent("ArrowRight"), ["Bogus-x", "Tab", "Right"])).toBe(true);
+    expect(matchesAnyKey(keyEvent("Escape"), ["Tab", "Right"])).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+// The parts of the Obsidian API that the tested modules touch at runtime.
+interface TagCache {
+  tags?: { tag: string }[];
+  frontmatter?: Record<string, unknown>;
+}
+
+export class TFile {
+  path: string;
+  name: string;
+  basename: string;
+  extension: string;
+
+  constructor(path: string) {
+    this.path = path;
+    this.name = path.slice(path.lastIndexOf("/") + 1);
+    this.basename = this.name.replace(/\.[^.]+$/, "");
+    this.extension = this.name.includes(".") ? this.name.slice(this.name.lastIndexOf(".") + 1) : "";
+  }
+}
+
+export class Modal {}
+
+export class SuggestModal {}
+
+export class Notice {}
+
+export const editorInfoField = null;
+
+export function getAllTags(cache: TagCache): string[] | null {
+  const tags = (cache.tags ?? []).map(entry => entry.tag);
+  const declared = cache.frontmatter?.tags;
+  const list = Array.isArray(declared) ? declared : typeof declared === "string" ? declared.split(/[,\s]+/) : [];
+  for (const tag of list) {
+    if (typeof tag === "string" && tag) {
+      tags.push(tag.startsWith("#") ? tag : `#${tag}`);
+    }
+  }
+  return tags;
+}
@@ -0,0 +1,102 @@
+import { App, CachedMetadata, TFile } from "obsidian";
+import { describe, expect, it } from "vitest";
+import { PrivacyRules, isExcludedNote, redactText } from "../src/privacy";
+
+const NO_RULES: PrivacyRules = {
+  excludedFolders: [],
+  excludedTags: [],
+  excludedProperties: [],
+  redactSecrets: false,
+  redactEmails: false,
+  redactPhones: false,
+  redactPatterns: []
+};
+
+function rules(overrides: Partial<PrivacyRules>): PrivacyRules {
+  return { ...NO_RULES, ...overrides };
+}
+
+function note(path: string, cache: CachedMetadata | null = null): { app: App; file: TFile } {
+  const app = { metadataCache: { getFileCache: () => cache } } as unknown as App;
+  return { app, file: { path } as TFile };
+}
+
+describe("isExcludedNote", () => {
+  it("never excludes a missing file", () => {
+    const { app } = note("a.md");
+    expect(isExcludedNote(app, null, rules({ excludedFolders: ["**"] }))).toBe(false);
+  });
+
+  it("matches folders and globs", () => {
+    const { app, file } = note("Private/Journal/today.md");
+    expect(isExcludedNote(app, file, rules({ excludedFolders: ["Private"] }))).toBe(true);
+    expect(isExcludedNote(app, file, rules({ excludedFolders: ["Private/**"] }))).toBe(true);
+    expect(isExcludedNote(app, file, rules({ excludedFolders: ["Private/*"] }))).toBe(false);
+    expect(isExcludedNote(app, file, rules({ excludedFolders: ["Priv"] }))).toBe(false);
+    expect(isExcludedNote(app, file, rules({ excludedFolders: ["  "] }))).toBe(false);
+  });
+
+  it("matches tags in the body and the frontmatter, including nested tags", () => {
+    const body = note("a.md", { tags: [{ tag: "#secret/work" }] } as CachedMetadata);
+    expect(isExcludedNote(body.app, body.file, rules({ excludedTags: ["secret"] }))).toBe(true);
+    expect(isExcludedNote(body.app, body.file, rules({ excludedTags: ["#secret/work"] }))).toBe(true);
+    expect(isExcludedNote(body.app, body.file, rules({ excludedTags: ["secrets"] }))).toBe(false);
+    const frontmatter = note("b.md", { frontmatter: { tags: ["private"] } } as unknown as CachedMetadata);
+    expect(isExcludedNote(frontmatter.app, frontmatter.file, rules({ excludedTags: ["private"] }))).toBe(true);
+  });
+
+  it("matches properties with a truthy value", () => {
+    const check = (value: unknown): boolean => {
+      const { app, file } = note("a.md", { frontmatter: { "no-ai": value } } as unknown as CachedMetadata);
+      return isExcludedNote(app, file, rules({ excludedProperties: ["no-ai"] }));
+    };
+    expect([true, 1, "yes", " On ", "1"].map(check)).toEqual([true, true, true, true, true]);
+    expect([false, 0, "no", "", null].map(check)).toEqual([false, false, false, false, false]);
+  });
+});
+
+describe("redactText", () => {
+  it("leaves text alone when nothing is turned on", () => {
+    const text = "mail me at someone@example.com";
+    expect(redactText(text, NO_RULES)).toEqual({ text, count: 0 });
+  });
+
+  it("replaces known key formats and keeps the name of assigned secrets", () => {
+    const result = redactText(
+      "key sk-abcdefghijklmnopqrstuvwx and\napi_key: hunter2hunter2",
+      rules({ redactSecrets: true })
+    );
+    expect(result).toEqual({ text: "key [REDACTED KEY] and\napi_key: [REDACTED KEY]", count: 2 });
+  });
+
+  it("does not count an assigned key twice", () => {
+    const result = redactText("token = sk-abcdefghijklmnopqrstuvwx", rules({ redactSecrets: true }));
+    expect(result).toEqual({ text: "token = [REDACTED KEY]", count: 1 });
+  });
+
+  it("replaces email addresses", () => {
+    const result = redactText("write to jane.doe@example.co.uk today", rules({ redactEmails: true }));
+    expect(result).toEqual({ text: "write to [REDACTED EMAIL] today", count: 1 });
+  });
+
+  it("replaces phone numbers but not dates or short numbers", () => {
+    const result = redactText(
+      "call +1 555 123 4567 on 2024-05-01 about order 12345",
+      rules({ redactPhones: true })
+    );
+    expect(result).toEqual({ text: "call [REDACTED PHONE] on 2024-05-01 about order 12345", count: 1 });
+  });
+
+  it("applies literal and regular expression patterns", () => {
+    const result = redactText(
+      "Project Falcon ships in Q3, ticket ABC-123",
+      rules({ redactPatterns: ["project falcon", "/[A-Z]{3}-\\d+/"] })
+    );
+    expect(result).toEqual({ text: "[REDACTED] ships in Q3, ticket [REDACTED]", count: 2 });
+  });
+
+  it("skips invalid patterns", () => {
+    const result = redactText("text (kept", rules({ redactPatterns: ["/(/"] }));
+    expect(result).toEqual({ text: "text (kept", count: 0 });
+  });
+});
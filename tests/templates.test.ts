@@ -0,0 +1,97 @@
+import { Text } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import {
+  CUSTOM_PRESET,
+  PROMPT_PRESETS,
+  PromptVariables,
+  collectPromptVariables,
+  getFrontmatterContent,
+  getHeadingPath,
+  renderTemplate,
+  resolveTemplate
+} from "../src/templates";
+
+const VARIABLES: PromptVariables = {
+  filename: "Say \"hi\".md",
+  title: "Say \"hi\"",
+  path: "Notes/Say \"hi\".md",
+  frontmatter: "",
+  heading_path: "Intro > Details",
+  tags: "",
+  prefix: "Hello",
+  suffix: "",
+  date: "2024-05-01",
+  related: ""
+};
+
+function doc(lines: string[]): Text {
+  return Text.of(lines);
+}
+
+describe("renderTemplate", () => {
+  it("fills in variables and escapes them for YAML on request", () => {
+    expect(renderTemplate("{{title}}: {{ prefix }}", VARIABLES)).toBe("Say \"hi\": Hello");
+    expect(renderTemplate("filename: {{filename|yaml}}", VARIABLES)).toBe("filename: \"Say \\\"hi\\\".md\"");
+  });
+
+  it("renders sections only for non-empty variables", () => {
+    const template = "{{#heading_path}}Section: {{heading_path}}\n{{/heading_path}}{{#tags}}Tags: {{tags}}\n{{/tags}}{{prefix}}";
+    expect(renderTemplate(template, VARIABLES)).toBe("Section: Intro > Details\nHello");
+    expect(renderTemplate(template, { ...VARIABLES, tags: " " })).toBe("Section: Intro > Details\nHello");
+  });
+
+  it("leaves unknown names untouched", () => {
+    expect(renderTemplate("{{unknown}} {{#other}}x{{/other}} {{prefix}}", VARIABLES)).toBe(
+      "{{unknown}} {{#other}}x{{/other}} Hello"
+    );
+  });
+
+  it("does not expand variables inside inserted values", () => {
+    expect(renderTemplate("{{prefix}}", { ...VARIABLES, prefix: "{{title}}" })).toBe("{{title}}");
+  });
+});
+
+describe("resolveTemplate", () => {
+  it("uses a custom template only when it is not blank", () => {
+    expect(resolveTemplate({ preset: CUSTOM_PRESET, template: "{{prefix}}" })).toBe("{{prefix}}");
+    expect(resolveTemplate({ preset: CUSTOM_PRESET, template: "  " })).toBe(PROMPT_PRESETS.yaml.template);
+    expect(resolveTemplate({ preset: "title", template: "{{prefix}}" })).toBe(PROMPT_PRESETS.title.template);
+    expect(resolveTemplate({ preset: "missing", template: "" })).toBe(PROMPT_PRESETS.yaml.template);
+  });
+});
+
+describe("note variables", () => {
+  const note = doc(["---", "tags: [trip]", "---", "# Trip", "## Day one", "### Morning", "## Day two", "Text"]);
+
+  it("reads the frontmatter", () => {
+    expect(getFrontmatterContent(note)).toBe("tags: [trip]");
+    expect(getFrontmatterContent(doc(["# No frontmatter", "---"]))).toBe("");
+  });
+
+  it("lists the headings above a position", () => {
+    expect(getHeadingPath(note, note.length)).toEqual(["Trip", "Day two"]);
+    expect(getHeadingPath(note, note.line(6).to)).toEqual(["Trip", "Day one"]);
+  });
+
+  it("collects the variables for a prompt", () => {
+    const variables = collectPromptVariables(
+      note,
+      note.length,
+      "Text",
+      "",
+      { fileName: "Trip.md", path: "Travel/Trip.md", tags: ["#trip", "#2024"], language: null },
+      [{ fileName: "Other.md", snippet: "Other text" }]
+    );
+    expect(variables).toMatchObject({
+      filename: "Trip.md",
+      title: "Trip",
+      path: "Travel/Trip.md",
+      frontmatter: "tags: [trip]",
+      heading_path: "Trip > Day two",
+      tags: "#trip, #2024",
+      prefix: "Text",
+      related: "---\nfilename: \"Other.md\"\n---\nOther text\n\n"
+    });
+    expect(variables.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+  });
+});
@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// The obsidian package only ships type declarations, so tests run against a small stand-in.
+export default defineConfig({
+  resolve: {
+    alias: {
+      obsidian: fileURLToPath(new URL("./tests/obsidian-stub.ts", import.meta.url))
+    }
+  },
+  test: {
+    include: ["tests/**/*.test.ts"]
+  }
+});